@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from './App';
+import { generateContent, imageResponse, RESULT_BASE64 } from './test/fakeGenAI';
+import { fetchObjectUrl } from './test/objectUrls';
+import { setActiveSelection } from './services/imageEditProvider';
+
+vi.mock('@google/genai', () => import('./test/fakeGenAI'));
+
+// IndexedDB is not available in jsdom; start every test from an empty workspace.
+vi.mock('./services/workspaceStore', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./services/workspaceStore')>(),
+  loadWorkspace: vi.fn(async () => []),
+  saveImage: vi.fn(async () => {}),
+  deleteImage: vi.fn(async () => {}),
+  clearWorkspace: vi.fn(async () => {}),
+}));
+
+const SOURCE_BASE64 = btoa('source image');
+
+// Decoding and resizing need a real canvas; hand back the file as if it needed no changes.
+vi.mock('./utils/imagePreprocessing', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./utils/imagePreprocessing')>(),
+  preprocessImage: vi.fn(async () => ({
+    base64: SOURCE_BASE64,
+    mimeType: 'image/jpeg',
+    dataUrl: `data:image/jpeg;base64,${SOURCE_BASE64}`,
+    originalDimensions: { width: 4000, height: 3000 },
+  })),
+}));
+
+const uploadImage = async (container: HTMLElement, name = 'beach.jpg') => {
+  const input = container.querySelector<HTMLInputElement>('#file-upload')!;
+  fireEvent.change(input, { target: { files: [new File(['jpeg'], name, { type: 'image/jpeg' })] } });
+  return screen.findByRole('button', { name: /Clean All Backgrounds \(1\)/ });
+};
+
+const lastRequestParts = () => generateContent.mock.calls[generateContent.mock.calls.length - 1][0].contents.parts;
+
+describe('App', () => {
+  beforeEach(() => {
+    process.env.API_KEY = 'test-key';
+    generateContent.mockReset();
+    setActiveSelection({ providerId: 'gemini', model: 'gemini-2.5-flash-image' });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const response = fetchObjectUrl(url);
+      if (!response) throw new TypeError(`Unexpected fetch: ${url}`);
+      return response;
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('cleans an uploaded image with the batch preset and shows the result as v1', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+    const { container } = render(<App />);
+
+    fireEvent.click(await uploadImage(container));
+
+    expect(await screen.findByText(/Viewing v1/)).toBeTruthy();
+    expect(screen.getByAltText('Processed').getAttribute('src')).toMatch(/^blob:/);
+    expect(screen.getByRole('button', { name: 'Done (1)' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: /Clean All Backgrounds \(0\)/ }).hasAttribute('disabled')).toBe(true);
+
+    const [image, prompt] = lastRequestParts();
+    expect(image.inlineData).toEqual({ data: SOURCE_BASE64, mimeType: 'image/jpeg' });
+    expect(prompt.text).toMatch(/remove/i);
+  });
+
+  it('refines the current result into a new version and can undo it', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+    const { container } = render(<App />);
+    fireEvent.click(await uploadImage(container));
+    await screen.findByText(/Viewing v1/);
+
+    const refinedBase64 = btoa('refined image');
+    generateContent.mockResolvedValueOnce(imageResponse({
+      candidates: [{ content: { parts: [{ inlineData: { data: refinedBase64, mimeType: 'image/png' } }] }, finishReason: 'STOP' }],
+    }));
+    const applyButton = screen.getByRole('button', { name: 'Apply Refinement' });
+    expect(applyButton.hasAttribute('disabled')).toBe(true);
+    fireEvent.change(screen.getByPlaceholderText(/Refine further/), { target: { value: 'Make the sky bluer' } });
+    fireEvent.click(applyButton);
+
+    expect(await screen.findByText(/Viewing v2/)).toBeTruthy();
+    // The refinement is applied to the cleaned result, not the original upload.
+    expect(lastRequestParts()).toEqual([
+      { inlineData: { data: RESULT_BASE64, mimeType: 'image/png' } },
+      { text: 'Make the sky bluer' },
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(screen.getByText(/Viewing v1/)).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Redo' }));
+    expect(screen.getByText(/Viewing v2/)).toBeTruthy();
+  });
+
+  it('shows a safety block on the image and lets a later clean succeed', async () => {
+    generateContent.mockResolvedValueOnce({
+      candidates: [{ finishReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', blocked: true }] }],
+    });
+    const { container } = render(<App />);
+    fireEvent.click(await uploadImage(container));
+
+    expect(await screen.findByText('Blocked by safety filters (HARM_CATEGORY_DANGEROUS_CONTENT)')).toBeTruthy();
+    expect(screen.getByText('Retrying will not help')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Error (1)' })).toBeTruthy();
+    expect(screen.queryByText(/Viewing v1/)).toBeNull();
+
+    generateContent.mockResolvedValueOnce(imageResponse());
+    fireEvent.click(screen.getByRole('button', { name: /Clean All Backgrounds \(1\)/ }));
+
+    expect(await screen.findByText(/Viewing v1/)).toBeTruthy();
+    expect(screen.queryByText(/Blocked by safety filters/)).toBeNull();
+  });
+
+  it('generates variants with consecutive seeds and keeps only the promoted one', async () => {
+    generateContent.mockResolvedValue(imageResponse());
+    const { container } = render(<App />);
+    fireEvent.change(screen.getByLabelText(/Results per clean or refine/), { target: { value: '3' } });
+    fireEvent.change(screen.getByLabelText(/Seed/), { target: { value: '42' } });
+    fireEvent.click(await uploadImage(container));
+
+    await waitFor(() => expect(screen.getAllByRole('button', { name: 'Use this' }).every(b => !b.hasAttribute('disabled'))).toBe(true));
+    expect(generateContent.mock.calls.map(([request]) => request.config.seed)).toEqual([42, 43, 44]);
+    expect(screen.queryByText(/Viewing v1/)).toBeNull();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Use this' })[1]);
+    expect(await screen.findByText(/Viewing v1/)).toBeTruthy();
+    expect(screen.getByText('Kept as v1')).toBeTruthy();
+    expect(screen.getAllByRole('button', { name: 'Use this' })).toHaveLength(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard all' }));
+    expect(screen.queryByText('Kept as v1')).toBeNull();
+    expect(screen.getByText(/Viewing v1/)).toBeTruthy();
+  });
+
+  it('adds a pasted image, cleans it with the C shortcut and focuses the refine prompt with R', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+    render(<App />);
+
+    const file = new File(['jpeg'], 'pasted.jpg', { type: 'image/jpeg' });
+    fireEvent.paste(document.body, { clipboardData: { files: [file], items: [], getData: () => '' } });
+    await screen.findByRole('button', { name: /Clean All Backgrounds \(1\)/ });
+
+    fireEvent.keyDown(document.body, { key: 'c' });
+
+    expect(await screen.findByText(/Viewing v1/)).toBeTruthy();
+    expect(generateContent).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(document.body, { key: 'r' });
+    expect(document.activeElement).toBe(screen.getByPlaceholderText(/Refine further/));
+  });
+
+  it('marks the image as processing while the model call is in flight', async () => {
+    let respond: (value: unknown) => void = () => {};
+    generateContent.mockReturnValueOnce(new Promise(resolve => { respond = resolve; }));
+    const { container } = render(<App />);
+    fireEvent.click(await uploadImage(container));
+
+    expect(await screen.findByRole('button', { name: 'Processing (1)' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Cancel' })).toBeTruthy();
+
+    respond(imageResponse());
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Done (1)' })).toBeTruthy());
+  });
+});
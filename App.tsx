@@ -1,72 +1,112 @@
-
-import React, { useState, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ImageProcessor } from './components/ImageProcessor';
 import { Spinner } from './components/Spinner';
-import { processImageWithGemini } from './services/geminiService';
-import { urlToInfo, dataUrlToInfo, fileToInfo } from './utils/fileUtils';
-
-interface ImageInfo {
-  base64: string;
-  mimeType: string;
-}
-
-export interface ImageState {
-  id: string;
-  originalImageInfo: ImageInfo;
-  displayOriginalImageUrl: string;
-  latestProcessedImageUrl: string | null;
-  prompt: string;
-  isLoading: boolean;
-  isProcessed: boolean;
-  error: string | null;
-}
-
-const MAX_IMAGES = 5;
+import { ProviderSettings } from './components/ProviderSettings';
+import { useBackgroundCleaner } from './hooks/useBackgroundCleaner';
+import { clearUsageRecords, getUsageAggregates, getUsageRecords, subscribeUsage } from './services/usageTracker';
+import type { UsageAggregates, UsageRecord } from './services/usageTracker';
+import { loadUsageSettings, saveUsageSettings } from './utils/usageCost';
+import type { UsageSettings } from './utils/usageCost';
+import { UsagePanel } from './components/UsagePanel';
+import { PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { parseUrlList, isSupportedImageFile } from './utils/fileUtils';
+import { readPastedContent } from './utils/clipboard';
+import { collectDroppedFiles } from './utils/folderDrop';
+import { findShortcut, isTypingTarget } from './utils/shortcuts';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { VariantSettings } from './components/VariantSettings';
+import { countImagesByStatus, filterImagesByStatus } from './utils/gallery';
+import type { GalleryViewMode, StatusFilter } from './utils/gallery';
+import { ImageGallery } from './components/ImageGallery';
+import { GalleryToolbar } from './components/GalleryToolbar';
+import { PreprocessSettings } from './components/PreprocessSettings';
+import { TilingSettings } from './components/TilingSettings';
+import { QualityCheckSettings } from './components/QualityCheckSettings';
+import { PresetPicker } from './components/PresetPicker';
+import { PresetManager } from './components/PresetManager';
+import { RecipeManager } from './components/RecipeManager';
+import { loadRecipes, saveRecipes } from './utils/recipes';
+import type { RefinementRecipe } from './utils/recipes';
+import { ExportSettings } from './components/ExportSettings';
 
 const App: React.FC = () => {
   const [inputMode, setInputMode] = useState<'upload' | 'url'>('upload');
   const [imageUrlInput, setImageUrlInput] = useState<string>('');
-  const [images, setImages] = useState<ImageState[]>([]);
-  const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false);
   const [isUrlLoading, setIsUrlLoading] = useState<boolean>(false);
-  const [globalError, setGlobalError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [recipes, setRecipes] = useState<RefinementRecipe[]>(() => loadRecipes());
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(() => getUsageRecords());
+  const [usageAggregates, setUsageAggregates] = useState<UsageAggregates>(() => getUsageAggregates());
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadUsageSettings());
+  const [viewMode, setViewMode] = useState<GalleryViewMode>('grid');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Only this image gets the full editor; the rest are thumbnails in the gallery.
+  const [activeImageId, setActiveImageId] = useState<string | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const refinePromptRef = useRef<HTMLInputElement>(null);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState<boolean>(false);
+  // Short confirmation shown at the bottom of the screen, e.g. after copying a result.
+  const [notice, setNotice] = useState<string | null>(null);
+  // Document-level listeners call the latest handlers through these, so they are registered once.
+  const pasteHandlerRef = useRef<(event: ClipboardEvent) => void>(() => {});
+  const shortcutHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  const cleaner = useBackgroundCleaner({
+    onImagesAdded: added => setActiveImageId(activeId => activeId ?? added[0].id),
+  });
+  const { images, isBatchProcessing, isRecipeRunning, isExporting, isProjectBusy, queueStatus, isCleanable } = cleaner;
+  const processedImagesCount = images.filter(img => img.latestProcessedImageUrl).length;
 
-  const unprocessedImagesCount = images.filter(img => !img.isProcessed).length;
+  useEffect(() => {
+    saveRecipes(recipes);
+  }, [recipes]);
 
-  const addImages = (files: File[]) => {
-    setGlobalError(null);
-    if (images.length + files.length > MAX_IMAGES) {
-      setGlobalError(`You can only upload a maximum of ${MAX_IMAGES} images.`);
-      return;
-    }
+  useEffect(() => subscribeUsage((records, aggregates) => {
+    setUsageRecords(records);
+    setUsageAggregates(aggregates);
+  }), []);
 
-    files.forEach(async (file) => {
-      try {
-        const { base64, mimeType, dataUrl } = await fileToInfo(file);
-        const newImage: ImageState = {
-          id: `${Date.now()}-${Math.random()}`,
-          originalImageInfo: { base64, mimeType },
-          displayOriginalImageUrl: dataUrl,
-          latestProcessedImageUrl: null,
-          prompt: '',
-          isLoading: false,
-          isProcessed: false,
-          error: null,
-        };
-        setImages(prev => [...prev, newImage]);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Failed to load an image from file.';
-        setGlobalError(message);
-      }
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => pasteHandlerRef.current(event);
+    const handleKeyDown = (event: KeyboardEvent) => shortcutHandlerRef.current(event);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 2500);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // Drops removed images from the selection and closes the editor if its image is gone.
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = new Set([...prev].filter(id => images.some(img => img.id === id)));
+      return next.size === prev.size ? prev : next;
     });
-  }
+    setActiveImageId(activeId => activeId && images.some(img => img.id === activeId) ? activeId : null);
+  }, [images]);
+
+  const unprocessedImagesCount = images.filter(img => !img.isProcessed && !img.variants).length;
+  const statusCounts = countImagesByStatus(images);
+  const visibleImages = filterImagesByStatus(images, statusFilter);
+  const selectedImages = images.filter(img => selectedIds.has(img.id));
+  const activeImage = images.find(img => img.id === activeImageId) ?? null;
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     // FIX: Explicitly cast to File[] to resolve a TypeScript type inference issue where FileList becomes unknown[].
     const files = event.target.files ? Array.from(event.target.files) as File[] : [];
     if (files.length > 0) {
-      addImages(files);
+      cleaner.addFiles(files);
     }
     event.target.value = '';
   };
@@ -80,107 +120,140 @@ const App: React.FC = () => {
     e.preventDefault();
     setIsDragging(false);
   };
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  // Dropped folders are walked recursively; anything that is not an image is skipped.
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    // FIX: Explicitly cast to File[] to resolve a TypeScript type inference issue where FileList becomes unknown[], which causes issues with `.filter`.
-    const files = e.dataTransfer.files ? (Array.from(e.dataTransfer.files) as File[]).filter(f => f.type.startsWith('image/')) : [];
+    const files = (await collectDroppedFiles(e.dataTransfer)).filter(isSupportedImageFile);
     if (files.length > 0) {
-      addImages(files);
+      cleaner.addFiles(files);
     } else {
-      setGlobalError("No valid image files were dropped.");
+      cleaner.setError("No valid image files were dropped.");
     }
   };
-  
+
   const handleLoadImageFromUrl = async () => {
-    if (!imageUrlInput.trim()) {
-      setGlobalError("Please enter an image URL.");
-      return;
-    }
-    if (images.length >= MAX_IMAGES) {
-      setGlobalError(`You can only upload a maximum of ${MAX_IMAGES} images.`);
+    const urls = parseUrlList(imageUrlInput);
+    if (urls.length === 0) {
+      cleaner.setError("Please enter an image URL.");
       return;
     }
     setIsUrlLoading(true);
-    setGlobalError(null);
-    try {
-      const { base64, mimeType, dataUrl } = await urlToInfo(imageUrlInput);
-      const newImage: ImageState = {
-        id: `${Date.now()}-${Math.random()}`,
-        originalImageInfo: { base64, mimeType },
-        displayOriginalImageUrl: dataUrl,
-        latestProcessedImageUrl: null,
-        prompt: '',
-        isLoading: false,
-        isProcessed: false,
-        error: null,
-      };
-      setImages(prev => [...prev, newImage]);
-      setImageUrlInput('');
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load image from URL.';
-      setGlobalError(message);
-    } finally {
-      setIsUrlLoading(false);
+    // Keep only the URLs that failed so they can be corrected and retried.
+    setImageUrlInput((await cleaner.addUrls(urls)).join('\n'));
+    setIsUrlLoading(false);
+  };
+
+  // Pasting into a text field keeps its normal behaviour; anywhere else, pasted images and image
+  // URLs are added to the batch.
+  pasteHandlerRef.current = (event: ClipboardEvent) => {
+    if (!event.clipboardData || isTypingTarget(event.target)) return;
+    const { files, urls } = readPastedContent(event.clipboardData);
+    if (files.length === 0 && urls.length === 0) return;
+    event.preventDefault();
+    if (files.length > 0) {
+      cleaner.addFiles(files);
+    } else {
+      setIsUrlLoading(true);
+      cleaner.addUrls(urls).finally(() => setIsUrlLoading(false));
     }
   };
 
-  const handleCleanAll = async () => {
-    setIsBatchProcessing(true);
-    setGlobalError(null);
-
-    const cleaningPromises = images.map(image => {
-      if (image.isProcessed) return Promise.resolve(image);
-
-      setImages(prev => prev.map(img => img.id === image.id ? { ...img, isLoading: true, error: null } : img));
-      
-      const cleaningPrompt = "Identify and meticulously remove all people and text. Intelligently and realistically reconstruct the background. The output image should look as if the people and text were never there. Provide a clean, preserved background suitable for graphic design and digital creations.";
-
-      return processImageWithGemini(image.originalImageInfo.base64, image.originalImageInfo.mimeType, cleaningPrompt)
-        .then(resultBase64 => {
-           setImages(prev => prev.map(img => img.id === image.id ? {
-              ...img,
-              latestProcessedImageUrl: `data:image/png;base64,${resultBase64}`,
-              isProcessed: true,
-              isLoading: false,
-            } : img));
-        })
-        .catch(err => {
-            const message = err instanceof Error ? err.message : 'An unknown error occurred during cleaning.';
-             setImages(prev => prev.map(img => img.id === image.id ? { ...img, isLoading: false, error: message } : img));
-        });
+  const handleRemoveImage = (id: string) => cleaner.removeImages([id]);
+
+  const handleToggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
     });
+  };
 
-    await Promise.all(cleaningPromises);
-    setIsBatchProcessing(false);
+  const handleSelectAllVisible = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      visibleImages.forEach(img => next.add(img.id));
+      return next;
+    });
   };
-  
-  const handleRefine = async (id: string) => {
-    const imageToRefine = images.find(img => img.id === id);
-    if (!imageToRefine || !imageToRefine.latestProcessedImageUrl || !imageToRefine.prompt.trim()) return;
-
-    setImages(prev => prev.map(img => img.id === id ? { ...img, isLoading: true, error: null } : img));
-
-    try {
-        const { base64, mimeType } = dataUrlToInfo(imageToRefine.latestProcessedImageUrl);
-        const resultBase64 = await processImageWithGemini(base64, mimeType, imageToRefine.prompt);
-        setImages(prev => prev.map(img => img.id === id ? {
-            ...img,
-            latestProcessedImageUrl: `data:image/png;base64,${resultBase64}`,
-            isLoading: false,
-        } : img));
-    } catch (err) {
-        const message = err instanceof Error ? err.message : 'An unknown error occurred during refinement.';
-        setImages(prev => prev.map(img => img.id === id ? { ...img, isLoading: false, error: message } : img));
-    }
+
+  const handleOpenImage = (id: string) => {
+    setActiveImageId(id);
+    editorRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
-  const handlePromptChange = (id: string, prompt: string) => {
-    setImages(prev => prev.map(img => img.id === id ? { ...img, prompt } : img));
+  const handleCopyResult = async (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (image && await cleaner.copyResult(id)) setNotice(`Copied ${image.sourceName} to the clipboard.`);
   };
-  
-  const handleRemoveImage = (id: string) => {
-    setImages(prev => prev.filter(img => img.id !== id));
+
+  // Shortcuts act on the image open in the editor and move through the gallery in its filtered order.
+  shortcutHandlerRef.current = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || (isShortcutHelpOpen && event.key !== '?') || isTypingTarget(event.target)) return;
+    const action = findShortcut(event);
+    if (!action) return;
+    // Leave copying selected text alone.
+    if (action === 'copy-result' && window.getSelection()?.toString()) return;
+    event.preventDefault();
+
+    const activeIndex = visibleImages.findIndex(img => img.id === activeImageId);
+    const isBusy = isBatchProcessing || isRecipeRunning;
+    switch (action) {
+      case 'next-image':
+      case 'previous-image': {
+        const step = action === 'next-image' ? 1 : -1;
+        const next = visibleImages[Math.min(Math.max(activeIndex + step, 0), visibleImages.length - 1)];
+        if (next) setActiveImageId(next.id);
+        break;
+      }
+      case 'toggle-selected':
+        if (activeImage) handleToggleSelected(activeImage.id);
+        break;
+      case 'clean':
+        if (activeImage) cleaner.clean(activeImage.id);
+        break;
+      case 'clean-all':
+        if (!isBusy && unprocessedImagesCount > 0) cleaner.cleanImages();
+        break;
+      case 'refine':
+        refinePromptRef.current?.focus();
+        break;
+      case 'undo':
+        if (activeImage && !activeImage.isLoading) cleaner.undo(activeImage.id);
+        break;
+      case 'redo':
+        if (activeImage && !activeImage.isLoading) cleaner.redo(activeImage.id);
+        break;
+      case 'remove':
+        if (activeImage) {
+          const neighbour = visibleImages[activeIndex + 1] ?? visibleImages[activeIndex - 1];
+          handleRemoveImage(activeImage.id);
+          if (neighbour) setActiveImageId(neighbour.id);
+        }
+        break;
+      case 'download':
+        if (activeImage?.latestProcessedImageUrl) cleaner.downloadImage(activeImage.id);
+        break;
+      case 'export-all':
+        if (processedImagesCount > 0 && !isExporting) cleaner.downloadImages();
+        break;
+      case 'copy-result':
+        if (activeImage) handleCopyResult(activeImage.id);
+        break;
+      case 'help':
+        setIsShortcutHelpOpen(open => !open);
+        break;
+    }
+  };
+
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (images.length > 0 && !window.confirm(`Opening "${file.name}" replaces the ${images.length} image(s) in this session. Continue?`)) return;
+
+    const openedImages = await cleaner.loadProject(file);
+    if (openedImages) setActiveImageId(openedImages[0]?.id ?? null);
   };
 
   const TabButton: React.FC<{ mode: 'upload' | 'url'; label: string }> = ({ mode, label }) => (
@@ -204,8 +277,12 @@ const App: React.FC = () => {
             AI Background Preserver
           </h1>
           <p className="mt-4 text-lg text-gray-400 max-w-2xl mx-auto">
-            Upload up to 5 images to instantly remove people and text, then use prompts to refine them individually.
+            Upload your images to instantly remove people and text, then use prompts to refine them individually.
           </p>
+          <ProviderSettings disabled={isBatchProcessing} onChange={cleaner.setProviderSelection} />
+          <button onClick={() => setIsShortcutHelpOpen(true)} className="mt-2 text-sm text-gray-500 hover:text-teal-400">
+            Keyboard shortcuts (?)
+          </button>
         </header>
 
         <main>
@@ -226,20 +303,20 @@ const App: React.FC = () => {
                       isDragging ? 'border-teal-400 bg-gray-700/50' : 'border-gray-600 hover:border-gray-500'
                   }`}
                 >
-                  <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} accept="image/*" multiple disabled={isBatchProcessing} />
+                  <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} accept="image/*,.heic,.heif,.tif,.tiff" multiple disabled={isBatchProcessing} />
                   <label htmlFor="file-upload" className="w-full sm:w-auto inline-flex items-center justify-center gap-2 bg-teal-600 hover:bg-teal-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-teal-500/50 cursor-pointer">
                       Choose Files
                   </label>
-                  <p className="text-sm text-gray-500 mt-2">or drag and drop images ({images.length}/{MAX_IMAGES} selected)</p>
+                  <p className="text-sm text-gray-500 mt-2">or drag and drop images or folders, or paste them anywhere ({images.length} added)</p>
                 </div>
               ) : (
                 <div className="flex flex-col sm:flex-row gap-4">
-                  <input
-                      type="url"
+                  <textarea
                       value={imageUrlInput}
                       onChange={(e) => setImageUrlInput(e.target.value)}
-                      onKeyDown={(e) => e.key === 'Enter' && handleLoadImageFromUrl()}
-                      placeholder="Paste an image URL here and click 'Add Image'"
+                      onKeyDown={(e) => e.key === 'Enter' && (e.ctrlKey || e.metaKey) && handleLoadImageFromUrl()}
+                      placeholder="Paste one or more image URLs, one per line, and click 'Add Images'"
+                      rows={3}
                       disabled={isUrlLoading || isBatchProcessing}
                       className="flex-grow bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-teal-500 transition disabled:opacity-50"
                   />
@@ -249,28 +326,128 @@ const App: React.FC = () => {
                     className="bg-teal-600 hover:bg-teal-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-teal-500/50 flex items-center justify-center gap-2"
                   >
                     {isUrlLoading && <Spinner small />}
-                    Add Image
+                    Add Images
                   </button>
                 </div>
               )}
+              <div className="mt-4 flex flex-wrap justify-center gap-3 text-sm">
+                <button
+                    onClick={cleaner.downloadProject}
+                    disabled={images.length === 0 || isProjectBusy || isBatchProcessing || isRecipeRunning}
+                    className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+                >
+                    {isProjectBusy && <Spinner small />}
+                    Save Project
+                </button>
+                <input id="project-open" type="file" className="hidden" onChange={handleOpenProject} accept={`${PROJECT_FILE_EXTENSION},application/zip`} disabled={isProjectBusy || isBatchProcessing || isRecipeRunning} />
+                <label
+                    htmlFor="project-open"
+                    className={`bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors cursor-pointer ${isProjectBusy || isBatchProcessing || isRecipeRunning ? 'opacity-50 pointer-events-none' : ''}`}
+                >
+                    Open Project…
+                </label>
+              </div>
+              <div className="mt-4">
+                <PreprocessSettings options={cleaner.preprocessOptions} onChange={cleaner.setPreprocessOptions} disabled={isBatchProcessing || isUrlLoading} />
+                <TilingSettings options={cleaner.tilingOptions} onChange={cleaner.setTilingOptions} disabled={isBatchProcessing} />
+                <QualityCheckSettings options={cleaner.qualityCheckOptions} onChange={cleaner.setQualityCheckOptions} disabled={isBatchProcessing} />
+                <VariantSettings options={cleaner.variantOptions} onChange={cleaner.setVariantOptions} supportsSampling={cleaner.supportsSampling} disabled={isBatchProcessing} />
+              </div>
             </div>
 
             {images.length > 0 && (
-                <div className="border-t border-gray-700 pt-4 flex justify-center">
+                <div className="border-t border-gray-700 pt-4 mb-4 flex flex-col items-center gap-2">
+                    <PresetPicker
+                        presets={cleaner.allPresets}
+                        selection={cleaner.batchPreset}
+                        onChange={(selection) => selection && cleaner.setBatchPreset(selection)}
+                        disabled={isBatchProcessing}
+                    />
+                    <PresetManager customPresets={cleaner.customPresets} onChange={cleaner.setCustomPresets} />
+                    <RecipeManager
+                        recipes={recipes}
+                        onChange={setRecipes}
+                        onRun={cleaner.runRecipe}
+                        isRunning={isRecipeRunning}
+                        disabled={isBatchProcessing || isRecipeRunning}
+                    />
+                </div>
+            )}
+
+            {images.length > 0 && (
+                <div className="border-t border-gray-700 pt-4 flex flex-col sm:flex-row justify-center gap-4">
                     <button
-                        onClick={handleCleanAll}
-                        disabled={isBatchProcessing || unprocessedImagesCount === 0}
+                        onClick={() => cleaner.cleanImages()}
+                        disabled={isBatchProcessing || isRecipeRunning || unprocessedImagesCount === 0}
                         className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-blue-500/50 flex items-center justify-center gap-2 text-lg"
                     >
                         {isBatchProcessing && <Spinner small />}
-                        {isBatchProcessing ? 'Cleaning...' : `Clean All Backgrounds (${unprocessedImagesCount})`}
+                        {isBatchProcessing
+                          ? `Cleaning... (${queueStatus.running} running, ${queueStatus.pending} queued${queueStatus.paused ? ', paused' : ''})`
+                          : `Clean All Backgrounds (${unprocessedImagesCount})`}
+                    </button>
+                    {(isBatchProcessing || isRecipeRunning) && (
+                        <>
+                            <button
+                                onClick={() => queueStatus.paused ? cleaner.resume() : cleaner.pause()}
+                                className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                            >
+                                {queueStatus.paused ? 'Resume' : 'Pause'}
+                            </button>
+                            <button
+                                onClick={cleaner.cancelAll}
+                                className="bg-red-700 hover:bg-red-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-red-500/50"
+                            >
+                                Cancel All
+                            </button>
+                        </>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        Parallel requests:
+                        <select
+                            value={cleaner.concurrency}
+                            onChange={(e) => cleaner.setConcurrency(Number(e.target.value))}
+                            className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                        >
+                            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                    <button
+                        onClick={cleaner.clearImages}
+                        disabled={isBatchProcessing}
+                        className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                    >
+                        Clear Saved Workspace
                     </button>
                 </div>
             )}
 
-            {globalError && (
+            {processedImagesCount > 0 && (
+                <div className="border-t border-gray-700 mt-4 pt-4 flex flex-col items-center gap-4">
+                    <ExportSettings options={cleaner.exportOptions} onChange={cleaner.setExportOptions} disabled={isExporting} />
+                    <button
+                        onClick={() => cleaner.downloadImages()}
+                        disabled={isExporting}
+                        className="bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-green-500/50 flex items-center justify-center gap-2"
+                    >
+                        {isExporting && <Spinner small />}
+                        Download All ({processedImagesCount}) as ZIP
+                    </button>
+                </div>
+            )}
+
+            <UsagePanel
+                records={usageRecords}
+                aggregates={usageAggregates}
+                images={images}
+                settings={usageSettings}
+                onSettingsChange={setUsageSettings}
+                onClear={clearUsageRecords}
+            />
+
+            {cleaner.error && (
               <div className="mt-4 text-center bg-red-900/50 border border-red-700 text-red-300 p-3 rounded-lg">
-                <strong>Error:</strong> {globalError}
+                <strong>Error:</strong> {cleaner.error}
               </div>
             )}
           </div>
@@ -281,19 +458,80 @@ const App: React.FC = () => {
             </div>
           )}
 
-          <div className="grid grid-cols-1 gap-8">
-            {images.map((image) => (
+          {images.length > 0 && (
+            <div className="bg-gray-800/50 rounded-2xl shadow-lg p-4 mb-8 border border-gray-700">
+              <GalleryToolbar
+                  counts={statusCounts}
+                  statusFilter={statusFilter}
+                  onStatusFilterChange={setStatusFilter}
+                  viewMode={viewMode}
+                  onViewModeChange={setViewMode}
+                  selectedCount={selectedImages.length}
+                  visibleCount={visibleImages.length}
+                  onSelectAllVisible={handleSelectAllVisible}
+                  onClearSelection={() => setSelectedIds(new Set())}
+                  cleanableCount={selectedImages.filter(isCleanable).length}
+                  exportableCount={selectedImages.filter(img => img.latestProcessedImageUrl).length}
+                  onCleanSelected={() => cleaner.cleanImages(selectedImages.map(img => img.id))}
+                  onExportSelected={() => cleaner.downloadImages(selectedImages.map(img => img.id))}
+                  onRemoveSelected={() => cleaner.removeImages(selectedImages.map(img => img.id))}
+                  isExporting={isExporting}
+                  disabled={isBatchProcessing || isRecipeRunning}
+              />
+              {visibleImages.length > 0 ? (
+                <ImageGallery
+                    images={visibleImages}
+                    viewMode={viewMode}
+                    selectedIds={selectedIds}
+                    onToggleSelected={handleToggleSelected}
+                    activeImageId={activeImageId}
+                    onOpen={handleOpenImage}
+                />
+              ) : (
+                <p className="text-center text-gray-500 py-8">No images match this filter.</p>
+              )}
+            </div>
+          )}
+
+          <div ref={editorRef} className="scroll-mt-4">
+            {activeImage ? (
                 <ImageProcessor
-                    key={image.id}
-                    image={image}
-                    onPromptChange={handlePromptChange}
-                    onRefine={handleRefine}
+                    key={activeImage.id}
+                    image={activeImage}
+                    onPromptChange={cleaner.setPrompt}
+                    onRefine={cleaner.refine}
+                    onRetry={cleaner.retry}
                     onRemove={handleRemoveImage}
+                    onCancel={cleaner.cancel}
+                    onUndo={cleaner.undo}
+                    onRedo={cleaner.redo}
+                    onSelectVersion={cleaner.selectVersion}
+                    onExtendCanvas={cleaner.extendCanvas}
+                    onCheckQuality={cleaner.checkQuality}
+                    onMaskChange={cleaner.setMask}
+                    presets={cleaner.allPresets}
+                    onPresetChange={cleaner.setPreset}
+                    onDownload={cleaner.downloadImage}
+                    onCopy={handleCopyResult}
+                    referenceCandidates={images.filter(img => img.id !== activeImage.id)}
+                    onAddReference={cleaner.addReference}
+                    onReferencesChange={cleaner.setReferences}
+                    onPromoteVariant={cleaner.promoteVariant}
+                    onDiscardVariants={cleaner.discardVariants}
+                    refinePromptRef={refinePromptRef}
                 />
-            ))}
+            ) : images.length > 0 && (
+                <p className="text-center text-gray-500 py-8">Select an image above to edit it.</p>
+            )}
           </div>
         </main>
       </div>
+      {isShortcutHelpOpen && <ShortcutHelp onClose={() => setIsShortcutHelpOpen(false)} />}
+      {notice && (
+        <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-gray-800 border border-gray-600 text-gray-200 text-sm py-2 px-4 rounded-lg shadow-lg">
+          {notice}
+        </div>
+      )}
     </div>
   );
 };
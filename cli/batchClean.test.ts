@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { runBatchClean } from './batchClean';
+import { createProcessingQueue } from '../services/processingQueue';
+import { setActiveSelection } from '../services/imageEditProvider';
+
+// A PNG signature is all the sniffing needs; the mock provider hands the image back unchanged.
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe('runBatchClean', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'batch-clean-'));
+    await writeFile(path.join(dir, 'beach.png'), PNG_BYTES);
+    setActiveSelection({ providerId: 'mock', model: 'mock-echo' });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const run = (prompt: string, refinements: string[] = []) => runBatchClean({
+    input: path.join(dir, 'beach.png'),
+    outputDir: path.join(dir, 'out'),
+    recursive: false,
+    prompt,
+    refinements,
+    force: false,
+  }, createProcessingQueue({ concurrency: 1 }), vi.fn());
+
+  it('skips files already cleaned with the same prompts', async () => {
+    const first = await run('Remove the people', ['Warmer light']);
+    expect(first.usage.requests).toBe(2);
+
+    const report = await run('Remove the people', ['Warmer light']);
+    expect(report.summary).toMatchObject({ done: 0, skipped: 1 });
+    // Usage covers this run only.
+    expect(report.usage.requests).toBe(0);
+  });
+
+  it('reprocesses files cleaned with a different prompt or refinement chain', async () => {
+    await run('Remove the people');
+    const changedPrompt = await run('Remove the text');
+    expect(changedPrompt.summary).toMatchObject({ done: 1, skipped: 0 });
+
+    const addedRefinement = await run('Remove the text', ['Warmer light']);
+    expect(addedRefinement.summary).toMatchObject({ done: 1, skipped: 0 });
+    expect(addedRefinement.files['beach.png'].steps.map(step => step.prompt)).toEqual(['Remove the text', 'Warmer light']);
+  });
+});
@@ -0,0 +1,213 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { processImageWithGemini } from '../services/geminiService';
+import type { ImageData } from '../services/imageEditProvider';
+import { getActiveSelection } from '../services/imageEditProvider';
+import { InvalidInputError, toErrorInfo } from '../services/imageEditErrors';
+import type { ImageErrorInfo } from '../services/imageEditErrors';
+import { JobCancelledError } from '../services/processingQueue';
+import type { ProcessingQueue } from '../services/processingQueue';
+import { onUsageRecorded } from '../services/usageTracker';
+import { sniffImageMimeType } from '../utils/imageSniffing';
+import { addToTotals, DEFAULT_PRICE_TABLE, EMPTY_USAGE_TOTALS } from '../utils/usageCost';
+import type { UsageTotals } from '../utils/usageCost';
+import { findInputFiles } from './inputFiles';
+import type { InputFile } from './inputFiles';
+
+export interface BatchCleanOptions {
+  input: string;
+  outputDir: string;
+  recursive: boolean;
+  // Rendered cleaning prompt, applied first to every image.
+  prompt: string;
+  // Follow-up refinement prompts applied in order to each cleaned image.
+  refinements: string[];
+  // Reprocess files the report already lists as done.
+  force: boolean;
+}
+
+export interface StepReport {
+  prompt: string;
+  durationMs: number;
+}
+
+export interface FileReport {
+  input: string;
+  output: string | null;
+  status: 'done' | 'error';
+  steps: StepReport[];
+  // Index of the step that failed, 0 being the cleaning step.
+  failedStep: number | null;
+  error: ImageErrorInfo | null;
+  completedAt: string;
+}
+
+export interface BatchReport {
+  version: 1;
+  startedAt: string;
+  updatedAt: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  refinements: string[];
+  summary: { total: number; done: number; failed: number; skipped: number };
+  // Usage of this run only; earlier runs of a resumed batch are not included.
+  usage: UsageTotals;
+  files: Record<string, FileReport>;
+}
+
+export const REPORT_FILE_NAME = 'report.json';
+
+// Formats the model accepts as input; anything else is reported as an error for that file.
+const MODEL_INPUT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const outputPathFor = (file: InputFile, mimeType: string): string => {
+  const { dir, name } = path.posix.parse(file.relativePath);
+  return path.posix.join(dir, `${name}-clean.${EXTENSIONS[mimeType] ?? 'png'}`);
+};
+
+const readReport = async (reportPath: string): Promise<BatchReport | null> => {
+  try {
+    const report = JSON.parse(await readFile(reportPath, 'utf8')) as BatchReport;
+    return report.version === 1 && report.files ? report : null;
+  } catch {
+    return null;
+  }
+};
+
+// Writes through a temporary file so an interrupted run never leaves a truncated report behind.
+const writeReport = async (reportPath: string, report: BatchReport): Promise<void> => {
+  const tempPath = `${reportPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(report, null, 2));
+  await rename(tempPath, reportPath);
+};
+
+const readImage = async (file: InputFile): Promise<ImageData> => {
+  const bytes = await readFile(file.absolutePath);
+  const mimeType = sniffImageMimeType(bytes);
+  if (!mimeType || !MODEL_INPUT_TYPES.includes(mimeType)) {
+    throw new InvalidInputError(`Unsupported image type${mimeType ? ` (${mimeType})` : ''}. Use PNG, JPEG, WebP or HEIC.`, { file: file.relativePath });
+  }
+  return { base64: bytes.toString('base64'), mimeType };
+};
+
+export const runBatchClean = async (
+  options: BatchCleanOptions,
+  queue: ProcessingQueue,
+  log: (line: string) => void
+): Promise<BatchReport> => {
+  await mkdir(options.outputDir, { recursive: true });
+  const reportPath = path.join(options.outputDir, REPORT_FILE_NAME);
+  const previous = options.force ? null : await readReport(reportPath);
+  const files = await findInputFiles(options.input, options.recursive, options.outputDir);
+  const selection = getActiveSelection();
+
+  const report: BatchReport = {
+    version: 1,
+    startedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    provider: selection.providerId,
+    model: selection.model,
+    prompt: options.prompt,
+    refinements: options.refinements,
+    summary: { total: files.length, done: 0, failed: 0, skipped: 0 },
+    usage: EMPTY_USAGE_TOTALS,
+    files: { ...previous?.files },
+  };
+
+  const prompts = [options.prompt, ...options.refinements];
+
+  // A file only counts as done if its output was made with the same prompt and refinements.
+  const isAlreadyDone = (entry: FileReport | undefined): boolean =>
+    entry?.status === 'done' && entry.output !== null && existsSync(path.join(options.outputDir, entry.output));
+  const isSameChain = (entry: FileReport): boolean =>
+    entry.steps.length === prompts.length && entry.steps.every((step, index) => step.prompt === prompts[index]);
+
+  // Reports are written after every file, one at a time, so a crash loses at most the files in flight.
+  let pendingWrite = Promise.resolve();
+  const saveReport = () => {
+    report.updatedAt = new Date().toISOString();
+    pendingWrite = pendingWrite.then(() => writeReport(reportPath, report));
+    return pendingWrite;
+  };
+
+  let finished = 0;
+  const progress = () => `[${++finished}/${files.length}]`;
+
+  const processFile = async (file: InputFile): Promise<void> => {
+    const previousEntry = previous?.files[file.relativePath];
+    if (isAlreadyDone(previousEntry)) {
+      if (isSameChain(previousEntry!)) {
+        report.summary.skipped++;
+        log(`${progress()} skipped ${file.relativePath} (already done)`);
+        return;
+      }
+      log(`reprocessing ${file.relativePath}: it was cleaned with different prompts`);
+    }
+
+    const steps: StepReport[] = [];
+    let current: ImageData | null = null;
+    try {
+      for (const [index, prompt] of prompts.entries()) {
+        const startedAt = Date.now();
+        current = await queue.enqueue(`${file.relativePath}#${index}`, async (signal) => {
+          const image = current ?? await readImage(file);
+          return processImageWithGemini(image.base64, image.mimeType, prompt, { signal, imageId: file.relativePath });
+        });
+        steps.push({ prompt, durationMs: Date.now() - startedAt });
+      }
+
+      const result = current!;
+      const output = outputPathFor(file, result.mimeType);
+      await mkdir(path.dirname(path.join(options.outputDir, output)), { recursive: true });
+      await writeFile(path.join(options.outputDir, output), Buffer.from(result.base64, 'base64'));
+      report.files[file.relativePath] = {
+        input: file.relativePath,
+        output,
+        status: 'done',
+        steps,
+        failedStep: null,
+        error: null,
+        completedAt: new Date().toISOString(),
+      };
+      report.summary.done++;
+      log(`${progress()} done    ${file.relativePath} -> ${output}`);
+    } catch (err) {
+      // Cancelled files are left out of the report so the next run picks them up again.
+      if (err instanceof JobCancelledError) return;
+      const error = toErrorInfo(err, 'An unknown error occurred during cleaning.');
+      report.files[file.relativePath] = {
+        input: file.relativePath,
+        output: null,
+        status: 'error',
+        steps,
+        failedStep: steps.length,
+        error,
+        completedAt: new Date().toISOString(),
+      };
+      report.summary.failed++;
+      log(`${progress()} failed  ${file.relativePath}: ${error.message}`);
+    }
+    await saveReport();
+  };
+
+  log(`Found ${files.length} image(s); ${prompts.length} step(s) each using ${selection.providerId}/${selection.model}.`);
+  // Every request made while the batch runs is counted here, however long the batch is.
+  const stopCounting = onUsageRecorded(record => {
+    report.usage = addToTotals(report.usage, record, DEFAULT_PRICE_TABLE);
+  });
+  try {
+    await Promise.all(files.map(processFile));
+  } finally {
+    stopCounting();
+  }
+  await saveReport();
+  return report;
+};
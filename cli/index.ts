@@ -0,0 +1,119 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { getProvider, listProviders, setActiveSelection } from '../services/imageEditProvider';
+import { createProcessingQueue, DEFAULT_QUEUE_OPTIONS } from '../services/processingQueue';
+import { loadLocalEnv } from '../server/env';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET_ID, findPreset, importPresets, renderPresetPrompt } from '../utils/presets';
+import { runBatchClean } from './batchClean';
+
+const USAGE = `Usage: npm run clean-images -- <input> --output <dir> [options]
+
+  <input>                 Directory, single file or glob (quote it), e.g. "shoot/**/*.jpg"
+  -o, --output <dir>      Where cleaned images and report.json are written (required)
+  -p, --preset <id>       Cleaning preset (default: ${DEFAULT_PRESET_ID})
+      --var <name=value>  Value for a preset variable; repeatable
+      --presets-file <f>  JSON file of custom presets exported from the app
+      --prompt <text>     Custom cleaning prompt instead of a preset
+  -r, --refine <text>     Follow-up refinement applied after cleaning; repeatable, runs in order
+  -c, --concurrency <n>   Parallel requests (default: ${DEFAULT_QUEUE_OPTIONS.concurrency})
+      --provider <id>     ${listProviders().map(p => p.id).join(' | ')} (default: gemini, or IMAGE_PROVIDER)
+      --model <id>        Model to use with the provider
+      --mock              Shorthand for --provider mock; no key or network needed
+      --recursive         Include subdirectories when <input> is a directory
+      --force             Reprocess files the report already lists as done
+  -h, --help              Show this help
+
+Built-in presets: ${BUILT_IN_PRESETS.map(p => p.id).join(', ')}`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parsePresetVariables = (pairs: string[]): Record<string, string> =>
+  Object.fromEntries(pairs.map(pair => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) fail(`--var expects name=value, got "${pair}".`);
+    return [pair.slice(0, separator), pair.slice(separator + 1)];
+  }));
+
+const main = async () => {
+  loadLocalEnv();
+
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      var: { type: 'string', multiple: true, default: [] },
+      'presets-file': { type: 'string' },
+      prompt: { type: 'string' },
+      refine: { type: 'string', short: 'r', multiple: true, default: [] },
+      concurrency: { type: 'string', short: 'c' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      mock: { type: 'boolean', default: false },
+      recursive: { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const [input] = positionals;
+  if (!input) fail('Missing <input>.');
+  if (!values.output) fail('Missing --output <dir>.');
+  if (values.prompt && values.preset) fail('Use either --prompt or --preset, not both.');
+
+  const concurrency = Number(values.concurrency ?? DEFAULT_QUEUE_OPTIONS.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail('--concurrency must be a positive integer.');
+
+  const providerId = values.mock ? 'mock' : values.provider ?? process.env.IMAGE_PROVIDER ?? 'gemini';
+  let provider;
+  try {
+    provider = getProvider(providerId);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+  if (!provider.isAvailable()) {
+    fail(`The "${providerId}" provider is not configured. Set GEMINI_API_KEY (or IMAGE_PROXY_URL for "proxy"), or use --mock.`);
+  }
+  setActiveSelection({ providerId, model: values.model ?? provider.defaultModel });
+
+  let prompt = values.prompt?.trim();
+  if (!prompt) {
+    const customPresets = values['presets-file'] ? importPresets(await readFile(values['presets-file'], 'utf8')) : [];
+    const presets = [...BUILT_IN_PRESETS, ...customPresets];
+    const presetId = values.preset ?? DEFAULT_PRESET_ID;
+    if (!presets.some(p => p.id === presetId)) fail(`Unknown preset "${presetId}".`);
+    prompt = renderPresetPrompt(findPreset(presets, presetId), parsePresetVariables(values.var));
+  }
+
+  const queue = createProcessingQueue({ concurrency });
+  process.once('SIGINT', () => {
+    console.error('\nInterrupted: cancelling remaining requests. Run the same command again to resume.');
+    queue.cancelAll();
+  });
+
+  const report = await runBatchClean({
+    input: input!,
+    outputDir: values.output!,
+    recursive: values.recursive,
+    prompt,
+    refinements: values.refine.map(step => step.trim()).filter(Boolean),
+    force: values.force,
+  }, queue, line => console.log(line));
+
+  const { done, failed, skipped, total } = report.summary;
+  console.log(`\n${done} cleaned, ${skipped} already done, ${failed} failed of ${total}. ` +
+    `${report.usage.requests} requests, ${report.usage.totalTokens} tokens, est. $${report.usage.cost.toFixed(2)}.`);
+  process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface InputFile {
+  absolutePath: string;
+  // Path relative to the input directory or glob base; reused for the output layout and report keys.
+  relativePath: string;
+}
+
+// Formats the model accepts directly. Browser-only conversions (e.g. TIFF) are not available here.
+export const CLI_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.heic', '.heif'];
+
+const GLOB_CHARS = /[*?]/;
+
+const isImagePath = (filePath: string): boolean =>
+  CLI_IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+// Supports `*` and `?` within a path segment and `**` across segments.
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string, recursive: boolean, exclude: string | null): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && fullPath !== exclude) files.push(...await walk(fullPath, recursive, exclude));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+};
+
+// Resolves a directory, a single file or a glob to a sorted list of image files. Anything under
+// `excludeDir` (the output directory) is skipped so results are never fed back in.
+export const findInputFiles = async (input: string, recursive: boolean, excludeDir: string): Promise<InputFile[]> => {
+  const exclude = path.resolve(excludeDir);
+  const toInputFile = (base: string) => (absolutePath: string): InputFile => ({
+    absolutePath,
+    relativePath: path.relative(base, absolutePath).split(path.sep).join('/'),
+  });
+  const isOutsideOutput = (file: string) => file !== exclude && !file.startsWith(exclude + path.sep);
+
+  const normalized = input.split(path.sep).join('/');
+  if (!GLOB_CHARS.test(normalized)) {
+    const absolute = path.resolve(input);
+    const info = await stat(absolute).catch(() => null);
+    if (!info) {
+      throw new Error(`Input "${input}" does not exist.`);
+    }
+    if (info.isFile()) {
+      return [toInputFile(path.dirname(absolute))(absolute)];
+    }
+    const files = await walk(absolute, recursive, exclude);
+    return files.filter(isImagePath).filter(isOutsideOutput).sort().map(toInputFile(absolute));
+  }
+
+  // Walk from the deepest directory that contains no glob characters.
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+  const base = path.resolve(segments.slice(0, firstGlob).join('/') || '.');
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+  const needsRecursion = firstGlob < segments.length - 1 || normalized.includes('**');
+  const files = await walk(base, needsRecursion, exclude);
+  return files
+    .filter(file => matcher.test(path.relative(base, file).split(path.sep).join('/')))
+    .filter(isImagePath)
+    .filter(isOutsideOutput)
+    .sort()
+    .map(toInputFile(base));
+};
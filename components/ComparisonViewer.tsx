@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Spinner } from './Spinner';
+import { computeDiffHeatmap } from '../utils/imageDiff';
+import type { DiffResult } from '../utils/imageDiff';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface ComparisonViewerProps {
+  originalUrl: string;
+  processedUrl: string;
+  theme?: Partial<CleanerTheme>;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ originalUrl, processedUrl, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'wipe' | 'pan'; x: number; y: number } | null>(null);
+  const [wipePosition, setWipePosition] = useState<number>(50);
+  const [zoom, setZoom] = useState<number>(1);
+  const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  const [showDiff, setShowDiff] = useState<boolean>(false);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [isComputingDiff, setIsComputingDiff] = useState<boolean>(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDiff(null);
+  }, [originalUrl, processedUrl]);
+
+  // React registers wheel listeners as passive, so page scrolling has to be blocked natively.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const preventScroll = (e: WheelEvent) => e.preventDefault();
+    container.addEventListener('wheel', preventScroll, { passive: false });
+    return () => container.removeEventListener('wheel', preventScroll);
+  }, []);
+
+  useEffect(() => {
+    if (!showDiff || diff) return;
+    let cancelled = false;
+    setIsComputingDiff(true);
+    setDiffError(null);
+    computeDiffHeatmap(originalUrl, processedUrl)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(err => { if (!cancelled) setDiffError(err instanceof Error ? err.message : 'Failed to compute the difference map.'); })
+      .finally(() => { if (!cancelled) setIsComputingDiff(false); });
+    return () => { cancelled = true; };
+  }, [showDiff, diff, originalUrl, processedUrl]);
+
+  const clampPan = (x: number, y: number, z: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x, y };
+    const maxX = (rect.width * (z - 1)) / 2;
+    const maxY = (rect.height * (z - 1)) / 2;
+    return { x: Math.max(-maxX, Math.min(maxX, x)), y: Math.max(-maxY, Math.min(maxY, y)) };
+  };
+
+  const updateWipe = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setWipePosition(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+    setZoom(nextZoom);
+    setPan(current => clampPan(current.x, current.y, nextZoom));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const isHandle = (e.target as HTMLElement).dataset.wipeHandle === 'true';
+    dragRef.current = { mode: isHandle || zoom === 1 ? 'wipe' : 'pan', x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (dragRef.current.mode === 'wipe') updateWipe(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'wipe') {
+      updateWipe(e.clientX);
+      return;
+    }
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    setPan(current => clampPan(current.x + dx, current.y + dy, zoom));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  // Both layers share one transform so zoom and pan always stay in sync.
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+    transformOrigin: 'center center',
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full aspect-video relative overflow-hidden select-none touch-none ${zoom > 1 ? 'cursor-grab' : 'cursor-ew-resize'} ${theme.imageFrame}`}
+      >
+        <div className="absolute inset-0" style={layerStyle}>
+          <img src={originalUrl} alt="Original" className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+        </div>
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${wipePosition}%)` }}>
+          <div className="absolute inset-0" style={layerStyle}>
+            <img src={processedUrl} alt="Processed" className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+            {showDiff && diff && (
+              <img src={diff.heatmapUrl} alt="Difference map" className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+            )}
+          </div>
+        </div>
+        <div
+          data-wipe-handle="true"
+          className="absolute top-0 bottom-0 w-1 bg-white/80 cursor-ew-resize z-10"
+          style={{ left: `calc(${wipePosition}% - 2px)` }}
+        />
+        <span className={`absolute top-2 left-2 text-xs px-2 py-1 rounded ${theme.overlay}`}>Original</span>
+        <span className={`absolute top-2 right-2 text-xs px-2 py-1 rounded ${theme.overlay}`}>Processed</span>
+        {isComputingDiff && (
+          <div className={`absolute inset-0 flex items-center justify-center z-20 ${theme.overlay}`}>
+            <Spinner />
+          </div>
+        )}
+      </div>
+      <div className={`flex flex-wrap items-center gap-3 text-sm ${theme.mutedText}`}>
+        <span>Zoom: {zoom.toFixed(1)}×</span>
+        <button onClick={resetView} className={`py-1 px-3 ${theme.secondaryButton}`}>
+          Reset view
+        </button>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+          Difference heatmap
+        </label>
+        {showDiff && diff && <span>{(diff.changedRatio * 100).toFixed(1)}% of pixels changed</span>}
+        {diffError && <span className={theme.errorText}>{diffError}</span>}
+      </div>
+    </div>
+  );
+};
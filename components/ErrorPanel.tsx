@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { getErrorTitle } from '../services/imageEditErrors';
+import type { ImageErrorInfo } from '../services/imageEditErrors';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface ErrorPanelProps {
+  error: ImageErrorInfo;
+  // Omitted while the image is busy; the button is also hidden for errors retrying cannot fix.
+  onRetry?: () => void;
+  theme?: Partial<CleanerTheme>;
+}
+
+const RETRY_HINTS: Partial<Record<ImageErrorInfo['kind'], string>> = {
+  'auth': 'Check the API key configuration; retrying will not help until it is fixed.',
+  'safety': 'Try a different prompt or a mask around what should be removed.',
+  'invalid-input': 'The image or prompt needs to change before trying again.',
+};
+
+export const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onRetry, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const [copied, setCopied] = useState<boolean>(false);
+  const diagnosticsJson = JSON.stringify({ kind: error.kind, category: error.category, message: error.message, ...error.diagnostics }, null, 2);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(diagnosticsJson);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy diagnostics:", err);
+    }
+  };
+
+  return (
+    <div className={`mt-4 p-3 text-sm ${theme.errorPanel}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <strong>{getErrorTitle(error)}</strong>
+        <span className={error.retryable ? theme.warningText : theme.mutedText}>
+          {error.retryable ? 'Retrying may help' : 'Retrying will not help'}
+        </span>
+      </div>
+      <p className="mt-1">{error.message}</p>
+      {!error.retryable && RETRY_HINTS[error.kind] && <p className={`mt-1 ${theme.mutedText}`}>{RETRY_HINTS[error.kind]}</p>}
+      {error.retryable && onRetry && (
+        <button onClick={onRetry} className={`mt-2 py-1 px-3 ${theme.dangerButton}`}>
+          Retry
+        </button>
+      )}
+      <details className="mt-2">
+        <summary className={`cursor-pointer ${theme.mutedText}`}>Diagnostics</summary>
+        <pre className={`mt-2 max-h-64 overflow-auto p-2 text-xs whitespace-pre-wrap break-all ${theme.inset} ${theme.strongText}`}>{diagnosticsJson}</pre>
+        <button onClick={handleCopy} className={`mt-2 py-1 px-3 ${theme.secondaryButton}`}>
+          {copied ? 'Copied' : 'Copy diagnostics'}
+        </button>
+      </details>
+    </div>
+  );
+};
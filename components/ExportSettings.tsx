@@ -0,0 +1,90 @@
+import React from 'react';
+import type { ExportFormat, ExportOptions } from '../utils/exportUtils';
+
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  disabled?: boolean;
+}
+
+const parseDimension = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange, disabled = false }) => {
+  const inputClass = "bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-400">
+      <label className="flex items-center gap-2">
+        Format:
+        <select
+          value={options.format}
+          onChange={(e) => onChange({ ...options, format: e.target.value as ExportFormat })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="png">PNG</option>
+          <option value="jpeg">JPEG</option>
+          <option value="webp">WebP</option>
+        </select>
+      </label>
+      {options.format !== 'png' && (
+        <label className="flex items-center gap-2">
+          Quality:
+          <input
+            type="range"
+            min={10}
+            max={100}
+            value={Math.round(options.quality * 100)}
+            onChange={(e) => onChange({ ...options, quality: Number(e.target.value) / 100 })}
+            disabled={disabled}
+          />
+          <span className="w-10">{Math.round(options.quality * 100)}%</span>
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        Max size:
+        <input
+          type="number"
+          min={1}
+          value={options.maxWidth ?? ''}
+          onChange={(e) => onChange({ ...options, maxWidth: parseDimension(e.target.value) })}
+          placeholder="width"
+          disabled={disabled}
+          className={`${inputClass} w-24`}
+        />
+        ×
+        <input
+          type="number"
+          min={1}
+          value={options.maxHeight ?? ''}
+          onChange={(e) => onChange({ ...options, maxHeight: parseDimension(e.target.value) })}
+          placeholder="height"
+          disabled={disabled}
+          className={`${inputClass} w-24`}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={options.upscaleToSource}
+          onChange={(e) => onChange({ ...options, upscaleToSource: e.target.checked })}
+          disabled={disabled}
+        />
+        Upscale to source resolution
+      </label>
+      <label className="flex items-center gap-2" title="Available tokens: {name}, {index}, {date}, {version}">
+        File name:
+        <input
+          type="text"
+          value={options.fileNamePattern}
+          onChange={(e) => onChange({ ...options, fileNamePattern: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Spinner } from './Spinner';
+import { IMAGE_STATUSES, STATUS_LABELS } from '../utils/gallery';
+import type { GalleryViewMode, StatusFilter } from '../utils/gallery';
+
+interface GalleryToolbarProps {
+  counts: Record<StatusFilter, number>;
+  statusFilter: StatusFilter;
+  onStatusFilterChange: (filter: StatusFilter) => void;
+  viewMode: GalleryViewMode;
+  onViewModeChange: (mode: GalleryViewMode) => void;
+  selectedCount: number;
+  // Images shown under the current filter, for "Select all".
+  visibleCount: number;
+  onSelectAllVisible: () => void;
+  onClearSelection: () => void;
+  // Selected images each bulk action applies to; the others are skipped.
+  cleanableCount: number;
+  exportableCount: number;
+  onCleanSelected: () => void;
+  onExportSelected: () => void;
+  onRemoveSelected: () => void;
+  isExporting: boolean;
+  disabled?: boolean;
+}
+
+const toggleButtonClass = (isActive: boolean): string =>
+  `py-1 px-3 rounded-lg transition-colors ${isActive ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
+  counts, statusFilter, onStatusFilterChange, viewMode, onViewModeChange,
+  selectedCount, visibleCount, onSelectAllVisible, onClearSelection,
+  cleanableCount, exportableCount, onCleanSelected, onExportSelected, onRemoveSelected,
+  isExporting, disabled = false,
+}) => (
+  <div className="flex flex-col gap-3 mb-4 text-sm">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by status">
+        {(['all', ...IMAGE_STATUSES] as StatusFilter[]).map(filter => (
+          <button key={filter} onClick={() => onStatusFilterChange(filter)} className={toggleButtonClass(statusFilter === filter)}>
+            {STATUS_LABELS[filter]} ({counts[filter]})
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2" role="group" aria-label="View">
+        {(['grid', 'list'] as GalleryViewMode[]).map(mode => (
+          <button key={mode} onClick={() => onViewModeChange(mode)} className={toggleButtonClass(viewMode === mode)}>
+            {mode === 'grid' ? 'Grid' : 'List'}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="flex flex-wrap items-center gap-2 text-gray-400">
+      <span>{selectedCount} selected</span>
+      <button
+        onClick={onSelectAllVisible}
+        disabled={visibleCount === 0}
+        className="text-teal-400 hover:text-teal-300 disabled:opacity-50"
+      >
+        Select all{statusFilter === 'all' ? '' : ` ${STATUS_LABELS[statusFilter].toLowerCase()}`} ({visibleCount})
+      </button>
+      {selectedCount > 0 && (
+        <>
+          <button onClick={onClearSelection} className="text-teal-400 hover:text-teal-300">Clear selection</button>
+          <span className="flex-grow" />
+          <button
+            onClick={onCleanSelected}
+            disabled={disabled || cleanableCount === 0}
+            className="bg-blue-600 hover:bg-blue-500 text-white py-1 px-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Clean ({cleanableCount})
+          </button>
+          <button
+            onClick={onExportSelected}
+            disabled={isExporting || exportableCount === 0}
+            className="bg-green-600 hover:bg-green-500 text-white py-1 px-3 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isExporting && <Spinner small />}
+            Export ZIP ({exportableCount})
+          </button>
+          <button
+            onClick={onRemoveSelected}
+            disabled={disabled}
+            className="bg-red-700 hover:bg-red-600 text-white py-1 px-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Remove ({selectedCount})
+          </button>
+        </>
+      )}
+    </div>
+  </div>
+);
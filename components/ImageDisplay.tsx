@@ -1,14 +1,26 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Spinner } from './Spinner';
+import { MaskEditor } from './MaskEditor';
+import type { MaskState } from '../utils/maskUtils';
+import type { Detection } from '../services/contentDetection';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
 
 interface ImageDisplayProps {
   title: string;
   imageUrl: string | null;
   isLoading?: boolean;
+  mask?: MaskState | null;
+  onMaskChange?: (mask: MaskState | null) => void;
+  onDownload?: () => void;
+  onCopy?: () => Promise<void>;
+  // Leftovers found by the quality check, drawn as labelled boxes over the image.
+  detections?: Detection[];
+  theme?: Partial<CleanerTheme>;
 }
 
 const ImageIcon: React.FC = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
     </svg>
 );
@@ -20,40 +32,102 @@ const DownloadIcon: React.FC = () => (
 );
 
 
-export const ImageDisplay: React.FC<ImageDisplayProps> = ({ title, imageUrl, isLoading = false }) => {
-  const handleDownload = () => {
-    if (!imageUrl) return;
-    const link = document.createElement('a');
-    link.href = imageUrl;
-    const filename = `processed-image-${Date.now()}.png`;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+// Uses the image's own size as the viewBox so the boxes letterbox exactly like the object-contain image.
+const DetectionOverlay: React.FC<{ detections: Detection[]; width: number; height: number }> = ({ detections, width, height }) => {
+  const stroke = Math.max(width, height) / 300;
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+      {detections.map((detection, index) => (
+        <g key={index}>
+          <rect
+            x={detection.box.x * width}
+            y={detection.box.y * height}
+            width={detection.box.width * width}
+            height={detection.box.height * height}
+            fill="rgba(250, 204, 21, 0.15)"
+            stroke="#facc15"
+            strokeWidth={stroke}
+          />
+          <text
+            x={detection.box.x * width + stroke * 2}
+            y={detection.box.y * height - stroke * 2}
+            fill="#facc15"
+            fontSize={stroke * 12}
+            paintOrder="stroke"
+            stroke="#111827"
+            strokeWidth={stroke * 2}
+          >
+            {detection.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export const ImageDisplay: React.FC<ImageDisplayProps> = ({ title, imageUrl, isLoading = false, mask = null, onMaskChange, onDownload, onCopy, detections, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const [isEditingMask, setIsEditingMask] = useState<boolean>(false);
+  const [isCopying, setIsCopying] = useState<boolean>(false);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
 
   return (
     <div className="flex flex-col items-center">
-      <h2 className="text-2xl font-bold mb-4 text-gray-300">{title}</h2>
-      <div className="w-full aspect-square bg-gray-800 rounded-2xl shadow-lg border border-gray-700 flex items-center justify-center relative overflow-hidden">
+      <h2 className={`mb-4 ${theme.heading}`}>{title}</h2>
+      <div className={`w-full aspect-square flex items-center justify-center relative overflow-hidden ${theme.imageFrame}`}>
         {isLoading && (
-          <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center z-10 backdrop-blur-sm">
+          <div className={`absolute inset-0 flex items-center justify-center z-10 backdrop-blur-sm ${theme.overlay}`}>
             <Spinner />
           </div>
         )}
         {imageUrl ? (
-          <img src={imageUrl} alt={title} className="w-full h-full object-contain" />
+          <img
+            src={imageUrl}
+            alt={title}
+            className="w-full h-full object-contain"
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
         ) : (
-          <div className="text-center text-gray-500">
+          <div className={`text-center ${theme.subtleText}`}>
             <ImageIcon />
             <p className="mt-2">{title === 'Original' ? 'Upload an image to start' : 'Processed image will appear here'}</p>
           </div>
         )}
-        {title === 'Processed' && imageUrl && !isLoading && (
+        {imageUrl && onMaskChange && isEditingMask && (
+          <MaskEditor imageUrl={imageUrl} mask={mask} onMaskChange={onMaskChange} theme={theme} />
+        )}
+        {imageUrl && mask && !isEditingMask && (
+          <img src={mask.dataUrl} alt="" className="absolute inset-0 w-full h-full object-contain opacity-50 pointer-events-none" />
+        )}
+        {imageUrl && naturalSize && detections && detections.length > 0 && (
+          <DetectionOverlay detections={detections} width={naturalSize.width} height={naturalSize.height} />
+        )}
+        {imageUrl && onMaskChange && !isLoading && (
+          <button
+            onClick={() => setIsEditingMask(editing => !editing)}
+            className={`absolute bottom-4 left-4 font-bold py-2 px-4 z-20 ${theme.secondaryButton}`}
+          >
+            {isEditingMask ? 'Done' : mask ? 'Edit Mask' : 'Paint Mask'}
+          </button>
+        )}
+        {onCopy && imageUrl && !isLoading && (
+          <button
+            onClick={() => {
+              setIsCopying(true);
+              onCopy().finally(() => setIsCopying(false));
+            }}
+            disabled={isCopying}
+            aria-label="Copy processed image"
+            className={`absolute top-4 right-4 py-1 px-3 z-20 ${theme.secondaryButton}`}
+          >
+            {isCopying ? 'Copying…' : 'Copy'}
+          </button>
+        )}
+        {onDownload && imageUrl && !isLoading && (
           <button
-            onClick={handleDownload}
+            onClick={onDownload}
             aria-label="Download processed image"
-            className="absolute bottom-4 right-4 bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-500/50 flex items-center justify-center gap-2 z-20"
+            className={`absolute bottom-4 right-4 py-2 px-4 flex items-center justify-center gap-2 z-20 ${theme.downloadButton}`}
           >
             <DownloadIcon />
             Download Image
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageState } from '../types';
+import { Spinner } from './Spinner';
+import { getThumbnailUrl } from '../utils/thumbnails';
+import { getImageStatus, getVisibleRows, STATUS_LABELS } from '../utils/gallery';
+import type { GalleryViewMode, ImageStatus } from '../utils/gallery';
+
+interface ImageGalleryProps {
+  images: ImageState[];
+  viewMode: GalleryViewMode;
+  selectedIds: Set<string>;
+  onToggleSelected: (id: string) => void;
+  activeImageId: string | null;
+  onOpen: (id: string) => void;
+}
+
+const MIN_CARD_WIDTH = 160;
+const GAP = 12;
+// Name and status line under each grid thumbnail.
+const CARD_FOOTER_HEIGHT = 44;
+const LIST_ROW_HEIGHT = 64;
+
+const STATUS_STYLES: Record<ImageStatus, string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  processing: 'bg-blue-900/70 text-blue-300',
+  done: 'bg-green-900/70 text-green-300',
+  error: 'bg-red-900/70 text-red-300',
+};
+
+const useThumbnail = (imageUrl: string): string | null => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  useEffect(() => {
+    let isCurrent = true;
+    setThumbnail(null);
+    getThumbnailUrl(imageUrl)
+      .then(url => isCurrent && setThumbnail(url))
+      .catch(err => console.error("Failed to create a thumbnail:", err));
+    return () => { isCurrent = false; };
+  }, [imageUrl]);
+  return thumbnail;
+};
+
+const StatusBadge: React.FC<{ status: ImageStatus }> = ({ status }) => (
+  <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+);
+
+const Thumbnail: React.FC<{ image: ImageState; className: string; height?: number }> = ({ image, className, height }) => {
+  const thumbnail = useThumbnail(image.latestProcessedImageUrl ?? image.displayOriginalImageUrl);
+  return (
+    <div style={{ height }} className={`bg-gray-900 flex items-center justify-center overflow-hidden relative ${className}`}>
+      {thumbnail && <img src={thumbnail} alt={image.sourceName} className="w-full h-full object-contain" />}
+      {image.isLoading && (
+        <div className="absolute inset-0 bg-gray-900/60 flex items-center justify-center">
+          <Spinner small />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ItemProps {
+  image: ImageState;
+  isSelected: boolean;
+  isActive: boolean;
+  onToggleSelected: (id: string) => void;
+  onOpen: (id: string) => void;
+}
+
+const SelectBox: React.FC<{ image: ImageState; isSelected: boolean; onToggleSelected: (id: string) => void }> = ({ image, isSelected, onToggleSelected }) => (
+  <input
+    type="checkbox"
+    checked={isSelected}
+    onChange={() => onToggleSelected(image.id)}
+    onClick={(e) => e.stopPropagation()}
+    aria-label={`Select ${image.sourceName}`}
+    className="w-4 h-4"
+  />
+);
+
+const GridCard: React.FC<ItemProps & { thumbnailSize: number }> = ({ image, isSelected, isActive, onToggleSelected, onOpen, thumbnailSize }) => (
+  <div
+    onClick={() => onOpen(image.id)}
+    className={`rounded-lg border cursor-pointer overflow-hidden transition-colors ${isActive ? 'border-teal-400' : isSelected ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'}`}
+  >
+    <div className="relative">
+      <Thumbnail image={image} className="w-full" height={thumbnailSize} />
+      <div className="absolute top-2 left-2"><SelectBox image={image} isSelected={isSelected} onToggleSelected={onToggleSelected} /></div>
+    </div>
+    <div style={{ height: CARD_FOOTER_HEIGHT }} className="px-2 flex items-center justify-between gap-2 bg-gray-800">
+      <span className="text-sm text-gray-300 truncate" title={image.sourceName}>{image.sourceName}</span>
+      <StatusBadge status={getImageStatus(image)} />
+    </div>
+  </div>
+);
+
+const ListRow: React.FC<ItemProps> = ({ image, isSelected, isActive, onToggleSelected, onOpen }) => {
+  const status = getImageStatus(image);
+  const detail = status === 'error' ? image.error?.message : status === 'processing' ? image.progressMessage : null;
+  return (
+    <div
+      onClick={() => onOpen(image.id)}
+      style={{ height: LIST_ROW_HEIGHT - 4 }}
+      className={`flex items-center gap-3 px-3 rounded-lg border cursor-pointer transition-colors ${isActive ? 'border-teal-400 bg-gray-800' : isSelected ? 'border-blue-500 bg-gray-800/70' : 'border-transparent hover:bg-gray-800/70'}`}
+    >
+      <SelectBox image={image} isSelected={isSelected} onToggleSelected={onToggleSelected} />
+      <Thumbnail image={image} className="w-12 h-12 rounded flex-shrink-0" />
+      <div className="flex-grow min-w-0">
+        <div className="text-sm text-gray-200 truncate" title={image.sourceName}>{image.sourceName}</div>
+        <div className="text-xs text-gray-500 truncate">
+          {detail ?? (image.history.length > 0 ? `${image.history.length} version(s)` : 'Not cleaned yet')}
+        </div>
+      </div>
+      <StatusBadge status={status} />
+    </div>
+  );
+};
+
+// Only the rows in view are mounted, so the gallery stays responsive with hundreds of images.
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, viewMode, selectedIds, onToggleSelected, activeImageId, onOpen }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewport({ width: container.clientWidth, height: container.clientHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = viewMode === 'grid' ? Math.max(1, Math.floor((viewport.width + GAP) / (MIN_CARD_WIDTH + GAP))) : 1;
+  const cardWidth = (viewport.width - GAP * (columns - 1)) / columns;
+  const rowHeight = viewMode === 'grid' ? cardWidth + CARD_FOOTER_HEIGHT + GAP : LIST_ROW_HEIGHT;
+  const rowCount = Math.ceil(images.length / columns);
+  const { start, end } = viewport.width > 0
+    ? getVisibleRows(scrollTop, viewport.height, rowHeight, rowCount)
+    : { start: 0, end: 0 };
+
+  const rows: React.ReactNode[] = [];
+  for (let row = start; row < end; row++) {
+    const rowImages = images.slice(row * columns, (row + 1) * columns);
+    rows.push(
+      <div
+        key={row}
+        className="absolute left-0 right-0"
+        style={{
+          top: row * rowHeight,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          columnGap: GAP,
+        }}
+      >
+        {rowImages.map(image => {
+          const itemProps = {
+            image,
+            isSelected: selectedIds.has(image.id),
+            isActive: image.id === activeImageId,
+            onToggleSelected,
+            onOpen,
+          };
+          return viewMode === 'grid'
+            ? <GridCard key={image.id} {...itemProps} thumbnailSize={cardWidth} />
+            : <ListRow key={image.id} {...itemProps} />;
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="max-h-[70vh] overflow-y-auto"
+    >
+      <div className="relative" style={{ height: rowCount * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,51 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ImageDisplay } from './ImageDisplay';
 import { Spinner } from './Spinner';
-import type { ImageState } from '../App';
+import { VersionTimeline } from './VersionTimeline';
+import { ComparisonViewer } from './ComparisonViewer';
+import type { ImageState, StyleReference } from '../types';
+import type { MaskState } from '../utils/maskUtils';
+import type { CleaningPreset, PresetSelection } from '../utils/presets';
+import { PresetPicker } from './PresetPicker';
+import { ErrorPanel } from './ErrorPanel';
+import { OutpaintControls } from './OutpaintControls';
+import type { OutpaintRequest } from '../services/outpainting';
+import { summarizeLeftovers } from '../services/qualityCheck';
+import { StyleReferences } from './StyleReferences';
+import { VariantPicker } from './VariantPicker';
+import { describeReferences } from '../utils/references';
+import { canRedo, canUndo, getCurrentVersion, getVersionLabel } from '../utils/history';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
 
-interface ImageProcessorProps {
+// The optional callbacks switch features on: leave one out and its controls are not shown.
+export interface ImageProcessorProps {
   image: ImageState;
   onPromptChange: (id: string, prompt: string) => void;
   onRefine: (id: string) => void;
+  onRetry: (id: string) => void;
   onRemove: (id: string) => void;
+  onCancel: (id: string) => void;
+  onUndo: (id: string) => void;
+  onRedo: (id: string) => void;
+  onSelectVersion: (id: string, versionId: string) => void;
+  onExtendCanvas?: (id: string, request: OutpaintRequest) => void;
+  onCheckQuality?: (id: string) => void;
+  onMaskChange?: (id: string, mask: MaskState | null) => void;
+  // Per-image preset override; needs both.
+  presets?: CleaningPreset[];
+  onPresetChange?: (id: string, preset: PresetSelection | null) => void;
+  onDownload?: (id: string) => void;
+  onCopy?: (id: string) => Promise<void>;
+  // Style references; other images in the batch can be offered as candidates.
+  referenceCandidates?: Pick<ImageState, 'id' | 'sourceName'>[];
+  onAddReference?: (id: string, source: { imageId: string } | { file: File }) => void;
+  onReferencesChange?: (id: string, references: StyleReference[]) => void;
+  onPromoteVariant?: (id: string, candidateId: string) => void;
+  onDiscardVariants?: (id: string, candidateIds?: string[]) => void;
+  // Attached to the refine prompt so the host can focus it, e.g. from a keyboard shortcut.
+  refinePromptRef?: React.Ref<HTMLInputElement>;
+  theme?: Partial<CleanerTheme>;
 }
 
 const RemoveIcon: React.FC = () => (
@@ -17,35 +55,189 @@ const RemoveIcon: React.FC = () => (
 );
 
 
-export const ImageProcessor: React.FC<ImageProcessorProps> = ({ image, onPromptChange, onRefine, onRemove }) => {
+export const ImageProcessor: React.FC<ImageProcessorProps> = ({ image, onPromptChange, onRefine, onRetry, onRemove, onCancel, onUndo, onRedo, onSelectVersion, onExtendCanvas, onCheckQuality, onMaskChange, presets, onPresetChange, onDownload, onCopy, referenceCandidates = [], onAddReference, onReferencesChange, onPromoteVariant, onDiscardVariants, refinePromptRef, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const currentVersion = getCurrentVersion(image);
+  const isBranching = currentVersion !== null && image.history.some(entry => entry.parentId === currentVersion.id);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [refineMode, setRefineMode] = useState<'prompt' | 'extend'>('prompt');
+  const showComparison = isComparing && image.latestProcessedImageUrl !== null;
+  // A check of an older version says nothing about what is on screen now.
+  const qualityCheck = image.qualityCheck?.versionId === image.currentVersionId ? image.qualityCheck : null;
+
   return (
-    <div className="bg-gray-800/50 rounded-2xl shadow-lg p-4 relative border border-gray-700">
+    <div className={`p-4 relative ${theme.panel}`}>
         <button 
             onClick={() => onRemove(image.id)}
-            className="absolute top-3 right-3 text-gray-500 hover:text-white transition-colors z-30 p-1 bg-gray-900/50 rounded-full"
+            className={`absolute top-3 right-3 z-30 p-1 rounded-full ${theme.iconButton}`}
             aria-label="Remove image"
         >
             <RemoveIcon />
         </button>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <ImageDisplay title="Original" imageUrl={image.displayOriginalImageUrl} />
+      {image.latestProcessedImageUrl && (
+        <div className="flex justify-center mb-4">
+            <button
+                onClick={() => setIsComparing(comparing => !comparing)}
+                className={`py-1 px-3 ${theme.secondaryButton}`}
+            >
+                {showComparison ? 'Side by side' : 'Compare'}
+            </button>
+        </div>
+      )}
+      {showComparison && (
+        <div className="mb-4">
+            <ComparisonViewer originalUrl={image.displayOriginalImageUrl} processedUrl={image.latestProcessedImageUrl!} theme={theme} />
+        </div>
+      )}
+      <div className={`grid grid-cols-1 gap-4 ${showComparison ? '' : 'md:grid-cols-2'}`}>
+        {!showComparison && (
+            <ImageDisplay
+                title="Original"
+                imageUrl={image.displayOriginalImageUrl}
+                mask={image.mask}
+                onMaskChange={image.isProcessed || !onMaskChange ? undefined : (mask) => onMaskChange(image.id, mask)}
+                theme={theme}
+            />
+        )}
         <div className="flex flex-col gap-4">
-            <ImageDisplay title="Processed" imageUrl={image.latestProcessedImageUrl} isLoading={image.isLoading && !image.isProcessed} />
+            {!showComparison && (
+                <ImageDisplay
+                    title="Processed"
+                    imageUrl={image.latestProcessedImageUrl}
+                    isLoading={image.isLoading && !image.isProcessed}
+                    onDownload={onDownload && (() => onDownload(image.id))}
+                    onCopy={onCopy && (() => onCopy(image.id))}
+                    detections={qualityCheck?.detections}
+                    theme={theme}
+                />
+            )}
+
+            {image.isProcessed && (
+                <div className="flex items-center gap-2 text-sm">
+                    {qualityCheck?.status === 'pass' && (
+                        <span className={`py-1 px-3 ${theme.successBadge}`}>
+                            ✓ No leftovers found{qualityCheck.recleanAttempts > 0 ? ` after ${qualityCheck.recleanAttempts} re-clean(s)` : ''}
+                        </span>
+                    )}
+                    {qualityCheck?.status === 'warn' && (
+                        <span className={`py-1 px-3 ${theme.warningBadge}`}>
+                            ⚠ Leftovers: {summarizeLeftovers(qualityCheck.detections)}
+                            {qualityCheck.recleanAttempts > 0 ? ` (after ${qualityCheck.recleanAttempts} re-clean(s))` : ''}
+                        </span>
+                    )}
+                    {onCheckQuality && (
+                        <button
+                            onClick={() => onCheckQuality(image.id)}
+                            disabled={image.isLoading}
+                            className={`py-1 px-3 ${theme.secondaryButton}`}
+                        >
+                            {qualityCheck ? 'Check again' : 'Check for leftovers'}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {!image.isProcessed && !image.mask && presets && onPresetChange && (
+                <PresetPicker
+                    presets={presets}
+                    selection={image.preset}
+                    onChange={(preset) => onPresetChange(image.id, preset)}
+                    inheritLabel="Batch preset"
+                    disabled={image.isLoading}
+                    theme={theme}
+                />
+            )}
+
+            {image.isLoading && (
+                <div className="self-center flex items-center gap-3">
+                    {image.progressMessage && <span className={`text-sm ${theme.mutedText}`}>{image.progressMessage}</span>}
+                    <button
+                        onClick={() => onCancel(image.id)}
+                        className={`py-1 px-3 ${theme.dangerButton}`}
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
             
             {image.isProcessed && (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onUndo(image.id)}
+                        disabled={image.isLoading || !canUndo(image)}
+                        className={`py-1 px-3 ${theme.secondaryButton}`}
+                    >
+                        Undo
+                    </button>
+                    <button
+                        onClick={() => onRedo(image.id)}
+                        disabled={image.isLoading || !canRedo(image)}
+                        className={`py-1 px-3 ${theme.secondaryButton}`}
+                    >
+                        Redo
+                    </button>
+                    {currentVersion && (
+                        <span className={`text-sm ${theme.mutedText}`}>
+                            Viewing {getVersionLabel(image, currentVersion.id)}{isBranching ? ' — refining will start a new branch' : ''}
+                            {currentVersion.references.length > 0 && (
+                                <span className={`block text-xs ${theme.subtleText}`}>Made with {describeReferences(currentVersion.references)}</span>
+                            )}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            <VersionTimeline image={image} disabled={image.isLoading} onSelectVersion={onSelectVersion} theme={theme} />
+
+            {onAddReference && onReferencesChange && (
+                <StyleReferences
+                    imageId={image.id}
+                    references={image.references}
+                    candidates={referenceCandidates}
+                    onAdd={onAddReference}
+                    onChange={onReferencesChange}
+                    disabled={image.isLoading}
+                    theme={theme}
+                />
+            )}
+
+            {image.isProcessed && onExtendCanvas && (
+                <div className="flex gap-2 text-sm">
+                    {(['prompt', 'extend'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setRefineMode(mode)}
+                            className={`py-1 px-3 rounded-lg transition-colors ${refineMode === mode ? theme.toggleActive : theme.toggleInactive}`}
+                        >
+                            {mode === 'prompt' ? 'Refine' : 'Extend canvas'}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {image.isProcessed && onExtendCanvas && refineMode === 'extend' && (
+                <OutpaintControls onExtend={(request) => onExtendCanvas(image.id, request)} isLoading={image.isLoading} theme={theme} />
+            )}
+
+            {image.isProcessed && (refineMode === 'prompt' || !onExtendCanvas) && (
                  <div className="flex flex-col sm:flex-row gap-2">
                     <input
+                        ref={refinePromptRef}
                         type="text"
                         value={image.prompt}
                         onChange={(e) => onPromptChange(image.id, e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !image.isLoading && image.prompt.trim()) onRefine(image.id);
+                            if (e.key === 'Escape') e.currentTarget.blur();
+                        }}
                         placeholder="Refine further (e.g., 'make it a painting')"
                         disabled={image.isLoading}
-                        className="flex-grow bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500 transition disabled:opacity-50"
+                        className={`flex-grow px-4 py-3 ${theme.input}`}
                     />
                     <button
                         onClick={() => onRefine(image.id)}
                         disabled={image.isLoading || !image.prompt.trim()}
-                        className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-blue-500/50 flex items-center justify-center gap-2"
+                        className={`py-3 px-4 flex items-center justify-center gap-2 ${theme.primaryButton}`}
                     >
                        {image.isLoading && <Spinner small />}
                        Apply Refinement
@@ -54,10 +246,18 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ image, onPromptC
             )}
         </div>
       </div>
+      {image.variants && onPromoteVariant && onDiscardVariants && (
+        <VariantPicker
+            variants={image.variants}
+            getVersionLabel={(versionId) => getVersionLabel(image, versionId)}
+            onPromote={(candidateId) => onPromoteVariant(image.id, candidateId)}
+            onDiscard={(candidateIds) => onDiscardVariants(image.id, candidateIds)}
+            isLoading={image.isLoading}
+            theme={theme}
+        />
+      )}
       {image.error && (
-        <div className="mt-4 text-center bg-red-900/50 border border-red-700 text-red-300 p-3 rounded-lg">
-          <strong>Error:</strong> {image.error}
-        </div>
+        <ErrorPanel error={image.error} onRetry={image.isLoading ? undefined : () => onRetry(image.id)} theme={theme} />
       )}
     </div>
   );
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../utils/maskUtils';
+import type { MaskState } from '../utils/maskUtils';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  mask: MaskState | null;
+  onMaskChange: (mask: MaskState | null) => void;
+  theme?: Partial<CleanerTheme>;
+}
+
+interface CanvasPoint {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MASK_COLOR = '#ef4444';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, mask, onMaskChange, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<{ start: CanvasPoint; last: CanvasPoint; snapshot: ImageData } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(30);
+  const [feather, setFeather] = useState<number>(mask?.feather ?? 8);
+
+  // The canvas owns the mask while editing, so it is only seeded when the image changes.
+  useEffect(() => {
+    let cancelled = false;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    loadImage(imageUrl).then(async (img) => {
+      if (cancelled) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      if (mask) {
+        const maskImage = await loadImage(mask.dataUrl);
+        canvas.getContext('2d')?.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+      }
+    }).catch(err => console.error("Failed to initialise the mask editor:", err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  // Maps a pointer position to image pixels, accounting for the letterboxing of `object-contain`.
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): CanvasPoint => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const displayScale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * displayScale) / 2;
+    const offsetY = (rect.height - canvas.height * displayScale) / 2;
+    return {
+      x: (e.clientX - rect.left - offsetX) / displayScale,
+      y: (e.clientY - rect.top - offsetY) / displayScale,
+      scale: 1 / displayScale,
+    };
+  };
+
+  const drawSegment = (ctx: CanvasRenderingContext2D, from: CanvasPoint, to: CanvasPoint) => {
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * to.scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const drawRectangle = (ctx: CanvasRenderingContext2D, from: CanvasPoint, to: CanvasPoint) => {
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    strokeRef.current = { start: point, last: point, snapshot: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+    if (tool !== 'rectangle') drawSegment(ctx, point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'rectangle') {
+      ctx.putImageData(stroke.snapshot, 0, 0);
+      drawRectangle(ctx, stroke.start, point);
+    } else {
+      drawSegment(ctx, stroke.last, point);
+    }
+    stroke.last = point;
+  };
+
+  const commitMask = (nextFeather: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    let isEmpty = true;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] > 0) {
+        isEmpty = false;
+        break;
+      }
+    }
+    onMaskChange(isEmpty ? null : { dataUrl: canvas.toDataURL('image/png'), feather: nextFeather });
+  };
+
+  const handlePointerUp = () => {
+    if (!strokeRef.current) return;
+    strokeRef.current = null;
+    commitMask(feather);
+  };
+
+  const handleFeatherChange = (value: number) => {
+    setFeather(value);
+    if (mask) onMaskChange({ ...mask, feather: value });
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  };
+
+  const ToolButton: React.FC<{ value: MaskTool; label: string }> = ({ value, label }) => (
+    <button
+      onClick={() => setTool(value)}
+      className={`py-1 px-2 rounded transition-colors ${tool === value ? theme.toggleActive : theme.toggleInactive}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute inset-0 w-full h-full object-contain opacity-50 cursor-crosshair touch-none z-10"
+      />
+      <div className={`absolute top-2 left-2 right-12 z-20 flex flex-wrap items-center gap-2 rounded-lg p-2 text-xs ${theme.overlay}`}>
+        <ToolButton value="brush" label="Brush" />
+        <ToolButton value="eraser" label="Eraser" />
+        <ToolButton value="rectangle" label="Rectangle" />
+        <label className="flex items-center gap-1">
+          Size
+          <input type="range" min={5} max={150} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+        </label>
+        <label className="flex items-center gap-1">
+          Feather
+          <input type="range" min={0} max={40} value={feather} onChange={(e) => handleFeatherChange(Number(e.target.value))} />
+        </label>
+        <button onClick={handleClear} className={`py-1 px-2 ${theme.secondaryButton}`}>Clear</button>
+      </div>
+    </>
+  );
+};
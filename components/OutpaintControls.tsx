@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Spinner } from './Spinner';
+import { CANVAS_ANCHORS, OUTPAINT_PRESETS } from '../utils/outpainting';
+import type { CanvasAnchor, CanvasTarget } from '../utils/outpainting';
+import type { OutpaintRequest } from '../services/outpainting';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface OutpaintControlsProps {
+  onExtend: (request: OutpaintRequest) => void;
+  isLoading: boolean;
+  theme?: Partial<CleanerTheme>;
+}
+
+const CUSTOM_PRESET_ID = 'custom';
+
+const ANCHOR_ARROWS: Record<CanvasAnchor, string> = {
+  'top-left': '↖', 'top': '↑', 'top-right': '↗',
+  'left': '←', 'center': '•', 'right': '→',
+  'bottom-left': '↙', 'bottom': '↓', 'bottom-right': '↘',
+};
+
+export const OutpaintControls: React.FC<OutpaintControlsProps> = ({ onExtend, isLoading, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const [presetId, setPresetId] = useState<string>(OUTPAINT_PRESETS[0].id);
+  const [customTarget, setCustomTarget] = useState<CanvasTarget>({ kind: 'aspect', width: 16, height: 9 });
+  const [anchor, setAnchor] = useState<CanvasAnchor>('center');
+  const [instruction, setInstruction] = useState<string>('');
+
+  const target = presetId === CUSTOM_PRESET_ID
+    ? customTarget
+    : OUTPAINT_PRESETS.find(preset => preset.id === presetId)!.target;
+  const isValid = target.width > 0 && target.height > 0;
+
+  const updateCustomSize = (field: 'width' | 'height', value: string) =>
+    setCustomTarget(prev => ({ ...prev, [field]: Math.max(0, Math.round(Number(value) || 0)) }));
+
+  return (
+    <div className={`flex flex-col gap-3 text-sm ${theme.mutedText}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="outpaint-preset">Format:</label>
+        <select
+          id="outpaint-preset"
+          value={presetId}
+          onChange={(e) => setPresetId(e.target.value)}
+          disabled={isLoading}
+          className={`px-3 py-1 ${theme.input}`}
+        >
+          {OUTPAINT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+          <option value={CUSTOM_PRESET_ID}>Custom…</option>
+        </select>
+        {presetId === CUSTOM_PRESET_ID && (
+          <>
+            <select
+              value={customTarget.kind}
+              onChange={(e) => setCustomTarget(prev => ({ ...prev, kind: e.target.value as CanvasTarget['kind'] }))}
+              disabled={isLoading}
+              className={`px-2 py-1 ${theme.input}`}
+            >
+              <option value="aspect">Aspect ratio</option>
+              <option value="pixels">Pixel size</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={customTarget.width || ''}
+              onChange={(e) => updateCustomSize('width', e.target.value)}
+              disabled={isLoading}
+              aria-label="Target width"
+              className={`w-20 px-2 py-1 ${theme.input}`}
+            />
+            <span>{customTarget.kind === 'aspect' ? ':' : '×'}</span>
+            <input
+              type="number"
+              min={1}
+              value={customTarget.height || ''}
+              onChange={(e) => updateCustomSize('height', e.target.value)}
+              disabled={isLoading}
+              aria-label="Target height"
+              className={`w-20 px-2 py-1 ${theme.input}`}
+            />
+          </>
+        )}
+      </div>
+      <div className="flex items-start gap-4">
+        <div>
+          <span className="block mb-1">Keep image at:</span>
+          <div className="grid grid-cols-3 gap-1 w-24">
+            {CANVAS_ANCHORS.map(value => (
+              <button
+                key={value}
+                onClick={() => setAnchor(value)}
+                disabled={isLoading}
+                aria-label={`Anchor ${value}`}
+                aria-pressed={anchor === value}
+                className={`h-7 rounded transition-colors ${anchor === value ? theme.toggleActive : theme.toggleInactive}`}
+              >
+                {ANCHOR_ARROWS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-grow flex flex-col gap-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Optional: what the new areas should show (e.g. 'more open sky')"
+            disabled={isLoading}
+            className={`px-4 py-2 ${theme.input}`}
+          />
+          <button
+            onClick={() => onExtend({ target, anchor, instruction })}
+            disabled={isLoading || !isValid}
+            className={`py-2 px-4 flex items-center justify-center gap-2 ${theme.primaryButton}`}
+          >
+            {isLoading && <Spinner small />}
+            Extend Canvas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
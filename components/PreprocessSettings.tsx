@@ -0,0 +1,34 @@
+import React from 'react';
+import { MEGAPIXEL_CHOICES } from '../utils/imagePreprocessing';
+import type { PreprocessOptions } from '../utils/imagePreprocessing';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+export const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ options, onChange, disabled = false }) => (
+  <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+    <label className="flex items-center gap-2">
+      Downscale above:
+      <select
+        value={options.maxMegapixels}
+        onChange={(e) => onChange({ ...options, maxMegapixels: Number(e.target.value) })}
+        disabled={disabled}
+        className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      >
+        {MEGAPIXEL_CHOICES.map(mp => <option key={mp} value={mp}>{mp} MP</option>)}
+      </select>
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={options.keepMetadata}
+        onChange={(e) => onChange({ ...options, keepMetadata: e.target.checked })}
+        disabled={disabled}
+      />
+      Keep photo metadata (EXIF)
+    </label>
+  </div>
+);
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { createPreset, exportPresets, importPresets } from '../utils/presets';
+import type { CleaningPreset } from '../utils/presets';
+
+interface PresetManagerProps {
+  customPresets: CleaningPreset[];
+  onChange: (presets: CleaningPreset[]) => void;
+}
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ customPresets, onChange }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [template, setTemplate] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!name.trim() || !template.trim()) {
+      setError('A preset needs a name and a prompt template.');
+      return;
+    }
+    onChange([...customPresets, createPreset(name, template)]);
+    setName('');
+    setTemplate('');
+    setError(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(customPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cleaning-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      const importedIds = new Set(imported.map(p => p.id));
+      onChange([...customPresets.filter(p => !importedIds.has(p.id)), ...imported]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import presets.');
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="text-sm text-teal-400 hover:text-teal-300 underline">
+        Manage presets
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full bg-gray-900/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 text-sm">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-300">Custom presets</h3>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">Close</button>
+      </div>
+      {customPresets.length === 0 && <p className="text-gray-500">No custom presets yet.</p>}
+      {customPresets.map(preset => (
+        <div key={preset.id} className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-gray-200">{preset.name}</p>
+            <p className="text-gray-500">{preset.template}</p>
+          </div>
+          <button
+            onClick={() => onChange(customPresets.filter(p => p.id !== preset.id))}
+            className="text-red-400 hover:text-red-300"
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Preset name"
+        className="bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500"
+      />
+      <textarea
+        value={template}
+        onChange={(e) => setTemplate(e.target.value)}
+        placeholder="Prompt template, e.g. 'Remove {{objects}} and keep everything else.'"
+        rows={3}
+        className="bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500"
+      />
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleAdd} className="bg-teal-600 hover:bg-teal-500 text-white font-bold py-2 px-4 rounded-lg">Add preset</button>
+        <button onClick={handleExport} disabled={customPresets.length === 0} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg disabled:opacity-50">Export JSON</button>
+        <label className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg cursor-pointer">
+          Import JSON
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { findPreset } from '../utils/presets';
+import type { CleaningPreset, PresetSelection } from '../utils/presets';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface PresetPickerProps {
+  presets: CleaningPreset[];
+  selection: PresetSelection | null;
+  onChange: (selection: PresetSelection | null) => void;
+  inheritLabel?: string;
+  disabled?: boolean;
+  theme?: Partial<CleanerTheme>;
+}
+
+const INHERIT_VALUE = '';
+
+export const PresetPicker: React.FC<PresetPickerProps> = ({ presets, selection, onChange, inheritLabel, disabled = false, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const preset = selection ? findPreset(presets, selection.presetId) : null;
+
+  const handlePresetChange = (presetId: string) => {
+    onChange(presetId === INHERIT_VALUE ? null : { presetId, variables: {} });
+  };
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center gap-2 text-sm ${theme.mutedText}`}>
+      <label className="flex items-center gap-2">
+        Preset:
+        <select
+          value={selection?.presetId ?? INHERIT_VALUE}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          disabled={disabled}
+          className={`px-3 py-2 ${theme.input}`}
+        >
+          {inheritLabel && <option value={INHERIT_VALUE}>{inheritLabel}</option>}
+          {presets.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+      {selection && preset?.variables.map(variable => (
+        <input
+          key={variable.name}
+          type="text"
+          value={selection.variables[variable.name] ?? ''}
+          onChange={(e) => onChange({ ...selection, variables: { ...selection.variables, [variable.name]: e.target.value } })}
+          placeholder={variable.defaultValue ? `${variable.label} (${variable.defaultValue})` : variable.label}
+          aria-label={variable.label}
+          disabled={disabled}
+          className={`flex-grow px-3 py-2 ${theme.input}`}
+        />
+      ))}
+    </div>
+  );
+};
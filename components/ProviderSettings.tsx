@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { getActiveSelection, listProviders, setActiveSelection } from '../services/imageEditProvider';
+import type { ProviderSelection } from '../services/imageEditProvider';
+
+interface ProviderSettingsProps {
+  disabled?: boolean;
+  onChange?: (selection: ProviderSelection) => void;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ disabled = false, onChange }) => {
+  const [selection, setSelection] = useState<ProviderSelection>(() => getActiveSelection());
+  const providers = listProviders();
+  const activeProvider = providers.find(p => p.id === selection.providerId);
+
+  const updateSelection = (next: ProviderSelection) => {
+    setActiveSelection(next);
+    setSelection(getActiveSelection());
+    onChange?.(getActiveSelection());
+  };
+
+  return (
+    <div className="mt-4 flex flex-col sm:flex-row items-center justify-center gap-2 text-sm text-gray-400">
+      <label htmlFor="provider-select">Provider:</label>
+      <select
+        id="provider-select"
+        value={selection.providerId}
+        onChange={(e) => updateSelection({ providerId: e.target.value, model: '' })}
+        disabled={disabled}
+        className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      >
+        {providers.map(provider => (
+          <option key={provider.id} value={provider.id}>
+            {provider.label}{provider.isAvailable() ? '' : ' (not configured)'}
+          </option>
+        ))}
+      </select>
+      <label htmlFor="model-select">Model:</label>
+      <select
+        id="model-select"
+        value={selection.model}
+        onChange={(e) => updateSelection({ ...selection, model: e.target.value })}
+        disabled={disabled}
+        className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      >
+        {activeProvider?.models.map(model => (
+          <option key={model} value={model}>{model}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { MAX_RECLEAN_ATTEMPTS } from '../services/qualityCheck';
+import type { QualityCheckOptions } from '../services/qualityCheck';
+
+interface QualityCheckSettingsProps {
+  options: QualityCheckOptions;
+  onChange: (options: QualityCheckOptions) => void;
+  disabled?: boolean;
+}
+
+export const QualityCheckSettings: React.FC<QualityCheckSettingsProps> = ({ options, onChange, disabled = false }) => (
+  <div className="mt-3 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={options.enabled}
+        onChange={(e) => onChange({ ...options, enabled: e.target.checked })}
+        disabled={disabled}
+      />
+      Check results for leftovers
+    </label>
+    {options.enabled && (
+      <>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.autoReclean}
+            onChange={(e) => onChange({ ...options, autoReclean: e.target.checked })}
+            disabled={disabled}
+          />
+          Re-clean automatically
+        </label>
+        {options.autoReclean && (
+          <label className="flex items-center gap-2">
+            At most:
+            <select
+              value={options.maxRecleanAttempts}
+              onChange={(e) => onChange({ ...options, maxRecleanAttempts: Number(e.target.value) })}
+              disabled={disabled}
+              className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+            >
+              {Array.from({ length: MAX_RECLEAN_ATTEMPTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} {n === 1 ? 'retry' : 'retries'}</option>)}
+            </select>
+          </label>
+        )}
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Spinner } from './Spinner';
+import { createRecipe } from '../utils/recipes';
+import type { RefinementRecipe } from '../utils/recipes';
+
+interface RecipeManagerProps {
+  recipes: RefinementRecipe[];
+  onChange: (recipes: RefinementRecipe[]) => void;
+  onRun: (recipe: RefinementRecipe) => void;
+  isRunning: boolean;
+  disabled?: boolean;
+}
+
+export const RecipeManager: React.FC<RecipeManagerProps> = ({ recipes, onChange, onRun, isRunning, disabled = false }) => {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [steps, setSteps] = useState<string[]>(['']);
+  const [error, setError] = useState<string | null>(null);
+  const selected = recipes.find(recipe => recipe.id === selectedId) ?? recipes[0] ?? null;
+
+  const updateStep = (index: number, value: string) =>
+    setSteps(prev => prev.map((step, i) => i === index ? value : step));
+
+  const moveStep = (index: number, offset: number) =>
+    setSteps(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const handleSave = () => {
+    const recipe = createRecipe(name, steps);
+    if (!recipe.name || recipe.steps.length === 0) {
+      setError('A recipe needs a name and at least one step.');
+      return;
+    }
+    onChange([...recipes, recipe]);
+    setSelectedId(recipe.id);
+    setName('');
+    setSteps(['']);
+    setError(null);
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(recipes.filter(recipe => recipe.id !== selected.id));
+    setSelectedId('');
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2 text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-2 text-gray-400">
+        <label htmlFor="recipe-select">Recipe:</label>
+        <select
+          id="recipe-select"
+          value={selected?.id ?? ''}
+          onChange={(e) => setSelectedId(e.target.value)}
+          disabled={disabled || recipes.length === 0}
+          className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+        >
+          {recipes.length === 0 && <option value="">No recipes yet</option>}
+          {recipes.map(recipe => (
+            <option key={recipe.id} value={recipe.id}>{recipe.name} ({recipe.steps.length} steps)</option>
+          ))}
+        </select>
+        <button
+          onClick={() => selected && onRun(selected)}
+          disabled={disabled || !selected}
+          className="bg-purple-600 hover:bg-purple-500 text-white font-bold py-1 px-3 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+        >
+          {isRunning && <Spinner small />}
+          Run on all images
+        </button>
+        <button onClick={handleDelete} disabled={disabled || !selected} className="text-red-400 hover:text-red-300 disabled:opacity-50">
+          Delete
+        </button>
+        <button onClick={() => setIsEditing(editing => !editing)} className="text-teal-400 hover:text-teal-300 underline">
+          {isEditing ? 'Cancel' : 'New recipe'}
+        </button>
+      </div>
+      {selected && !isEditing && (
+        <ol className="list-decimal list-inside text-gray-500">
+          {selected.steps.map((step, index) => <li key={index}>{step}</li>)}
+        </ol>
+      )}
+      {isEditing && (
+        <div className="w-full bg-gray-900/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Recipe name, e.g. 'Shoot look'"
+            className="bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-gray-500 w-6 text-right">{index + 1}.</span>
+              <input
+                type="text"
+                value={step}
+                onChange={(e) => updateStep(index, e.target.value)}
+                placeholder="e.g. 'Remove all text'"
+                className="flex-grow bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+              <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move step up">↑</button>
+              <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move step down">↓</button>
+              <button onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))} disabled={steps.length === 1} className="text-red-400 hover:text-red-300 disabled:opacity-30" aria-label="Remove step">✕</button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button onClick={() => setSteps(prev => [...prev, ''])} className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-lg">Add step</button>
+            <button onClick={handleSave} className="bg-teal-600 hover:bg-teal-500 text-white font-bold py-1 px-3 rounded-lg">Save recipe</button>
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import { formatShortcutKey, SHORTCUT_GROUPS, SHORTCUTS } from '../utils/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6 w-full max-w-lg max-h-[85vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-200">Keyboard shortcuts</h2>
+          <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white px-1">✕</button>
+        </div>
+        {SHORTCUT_GROUPS.map(group => (
+          <div key={group} className="mb-4">
+            <h3 className="text-sm font-semibold text-teal-400 mb-2">{group}</h3>
+            <dl className="text-sm">
+              {SHORTCUTS.filter(shortcut => shortcut.group === group).map(shortcut => (
+                <div key={shortcut.action} className="flex items-center justify-between gap-4 py-1">
+                  <dt className="text-gray-300">{shortcut.description}</dt>
+                  <dd className="flex gap-1 flex-shrink-0">
+                    {shortcut.keys.map(key => (
+                      <kbd key={key} className="bg-gray-700 border border-gray-600 rounded px-2 py-0.5 text-xs text-gray-200">
+                        {formatShortcutKey(key, isMac)}
+                      </kbd>
+                    ))}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          Paste images or image URLs anywhere on the page with {formatShortcutKey('Mod+V', isMac)}. Shortcuts are ignored while a text field has focus.
+        </p>
+      </div>
+    </div>
+  );
+};
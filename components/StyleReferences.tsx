@@ -0,0 +1,91 @@
+import React from 'react';
+import type { ImageState, StyleReference } from '../types';
+import { REFERENCE_STRENGTHS } from '../services/imageEditProvider';
+import type { ReferenceStrength } from '../services/imageEditProvider';
+import { isSupportedImageFile } from '../utils/fileUtils';
+import { MAX_REFERENCES } from '../utils/references';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface StyleReferencesProps {
+  imageId: string;
+  references: StyleReference[];
+  // Other images in the batch that can be attached as a reference.
+  candidates: Pick<ImageState, 'id' | 'sourceName'>[];
+  onAdd: (id: string, source: { imageId: string } | { file: File }) => void;
+  onChange: (id: string, references: StyleReference[]) => void;
+  disabled?: boolean;
+  theme?: Partial<CleanerTheme>;
+}
+
+const STRENGTH_LABELS: Record<ReferenceStrength, string> = {
+  subtle: 'Subtle',
+  balanced: 'Balanced',
+  strong: 'Strong',
+};
+
+export const StyleReferences: React.FC<StyleReferencesProps> = ({ imageId, references, candidates, onAdd, onChange, disabled = false, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  const canAdd = references.length < MAX_REFERENCES && !disabled;
+  const inputId = `reference-upload-${imageId}`;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && isSupportedImageFile(file)) onAdd(imageId, { file });
+    event.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className={`flex flex-wrap items-center justify-between gap-2 ${theme.mutedText}`}>
+        <span className={`font-semibold ${theme.strongText}`}>Style references</span>
+        {references.length > 0 && <span className="text-xs">Mention them in prompts as "reference 1", "reference 2"…</span>}
+      </div>
+
+      {references.map((reference, index) => (
+        <div key={reference.id} className={`flex items-center gap-3 p-2 ${theme.inset}`}>
+          <img src={reference.imageUrl} alt={reference.name} className="w-12 h-12 object-cover rounded flex-shrink-0" />
+          <span className={`flex-grow min-w-0 truncate ${theme.strongText}`} title={reference.name}>
+            {index + 1}. {reference.name}
+          </span>
+          <select
+            value={reference.strength}
+            onChange={(e) => onChange(imageId, references.map(r => r.id === reference.id ? { ...r, strength: e.target.value as ReferenceStrength } : r))}
+            disabled={disabled}
+            aria-label={`Strength of reference ${index + 1}`}
+            className={`px-2 py-1 ${theme.input}`}
+          >
+            {REFERENCE_STRENGTHS.map(strength => <option key={strength} value={strength}>{STRENGTH_LABELS[strength]}</option>)}
+          </select>
+          <button
+            onClick={() => onChange(imageId, references.filter(r => r.id !== reference.id))}
+            disabled={disabled}
+            aria-label={`Remove reference ${index + 1}`}
+            className={`px-1 ${theme.iconButton}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {canAdd && (
+        <div className="flex flex-wrap items-center gap-2">
+          {candidates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onAdd(imageId, { imageId: e.target.value })}
+              className={`px-2 py-1 max-w-[16rem] ${theme.input}`}
+            >
+              <option value="">Add from batch…</option>
+              {candidates.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.sourceName}</option>)}
+            </select>
+          )}
+          <input id={inputId} type="file" accept="image/*,.heic,.heif,.tif,.tiff" className="hidden" onChange={handleFile} />
+          <label htmlFor={inputId} className={`py-1 px-3 cursor-pointer ${theme.secondaryButton}`}>
+            Upload reference…
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { OVERLAP_CHOICES, TILE_SIZE_CHOICES } from '../services/tiledProcessing';
+import type { TilingOptions } from '../services/tiledProcessing';
+
+interface TilingSettingsProps {
+  options: TilingOptions;
+  onChange: (options: TilingOptions) => void;
+  disabled?: boolean;
+}
+
+export const TilingSettings: React.FC<TilingSettingsProps> = ({ options, onChange, disabled = false }) => (
+  <div className="mt-3 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={options.enabled}
+        onChange={(e) => onChange({ ...options, enabled: e.target.checked })}
+        disabled={disabled}
+      />
+      Process large images in tiles
+    </label>
+    {options.enabled && (
+      <>
+        <label className="flex items-center gap-2">
+          Tile size:
+          <select
+            value={options.tileSize}
+            onChange={(e) => onChange({ ...options, tileSize: Number(e.target.value) })}
+            disabled={disabled}
+            className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+          >
+            {TILE_SIZE_CHOICES.map(size => <option key={size} value={size}>{size} px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Overlap:
+          <select
+            value={options.overlap}
+            onChange={(e) => onChange({ ...options, overlap: Number(e.target.value) })}
+            disabled={disabled}
+            className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+          >
+            {OVERLAP_CHOICES.map(px => <option key={px} value={px}>{px} px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.skipEmptyTiles}
+            onChange={(e) => onChange({ ...options, skipEmptyTiles: e.target.checked })}
+            disabled={disabled}
+          />
+          Skip tiles with nothing to remove
+        </label>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { SESSION_ID } from '../services/usageTracker';
+import type { ModelUsageCounts, UsageAggregates, UsageRecord } from '../services/usageTracker';
+import { getBudgetWarnings, groupUsage, summarizeCounts, toDayKey } from '../utils/usageCost';
+import type { ModelPrice, UsageSettings, UsageTotals } from '../utils/usageCost';
+
+interface UsagePanelProps {
+  // Recent requests, for the per-image breakdown; the totals come from `aggregates`.
+  records: UsageRecord[];
+  aggregates: UsageAggregates;
+  // Used to label the per-image totals; images removed since keep their usage under "Removed image".
+  images: { id: string; sourceName: string }[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+const formatLatency = (totals: UsageTotals): string =>
+  totals.requests ? `${(totals.totalLatencyMs / totals.requests / 1000).toFixed(1)} s` : '–';
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="bg-gray-900/60 rounded-lg p-3 flex-1 min-w-[10rem]">
+    <div className="text-gray-400 text-xs uppercase tracking-wide">{title}</div>
+    <div className="text-xl text-white font-bold">{formatCost(totals.cost)}</div>
+    <div className="text-xs text-gray-400">
+      {totals.requests} requests, {totals.failures} failed<br />
+      {formatTokens(totals.totalTokens)} tokens, avg {formatLatency(totals)}
+    </div>
+  </div>
+);
+
+const TotalsTable: React.FC<{ label: string; rows: [string, UsageTotals][] }> = ({ label, rows }) => (
+  <table className="w-full text-xs text-left">
+    <thead className="text-gray-400">
+      <tr>
+        <th className="py-1 pr-2 font-normal">{label}</th>
+        <th className="py-1 pr-2 font-normal text-right">Requests</th>
+        <th className="py-1 pr-2 font-normal text-right">Failed</th>
+        <th className="py-1 pr-2 font-normal text-right">Tokens</th>
+        <th className="py-1 pr-2 font-normal text-right">Avg latency</th>
+        <th className="py-1 font-normal text-right">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody className="text-gray-300">
+      {rows.map(([key, totals]) => (
+        <tr key={key} className="border-t border-gray-700">
+          <td className="py-1 pr-2 truncate max-w-[12rem]" title={key}>{key}</td>
+          <td className="py-1 pr-2 text-right">{totals.requests}</td>
+          <td className="py-1 pr-2 text-right">{totals.failures}</td>
+          <td className="py-1 pr-2 text-right">{formatTokens(totals.totalTokens)}</td>
+          <td className="py-1 pr-2 text-right">{formatLatency(totals)}</td>
+          <td className="py-1 text-right">{formatCost(totals.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const parseBudgetInput = (value: string): number | null => {
+  const amount = Number(value);
+  return value.trim() && Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, aggregates, images, settings, onSettingsChange, onClear }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { prices } = settings;
+  const sessionTotals = summarizeCounts(aggregates.sessions[SESSION_ID], prices);
+  const todayTotals = summarizeCounts(aggregates.days[toDayKey(Date.now())], prices);
+  const allTimeTotals = summarizeCounts(aggregates.allTime, prices);
+  const warnings = getBudgetWarnings(aggregates, SESSION_ID, settings);
+
+  const imageName = (imageId: string) => images.find(img => img.id === imageId)?.sourceName ?? 'Removed image';
+  const perImage = groupUsage(records.filter(r => r.imageId !== null), r => r.imageId!, prices)
+    .map(([imageId, totals]): [string, UsageTotals] => [`${imageName(imageId)} (${imageId.slice(-6)})`, totals]);
+  const perDay = Object.entries<ModelUsageCounts>(aggregates.days)
+    .map(([day, counts]): [string, UsageTotals] => [day, summarizeCounts(counts, prices)])
+    .reverse()
+    .slice(0, DAYS_SHOWN);
+
+  const updatePrice = (model: string, price: ModelPrice) =>
+    onSettingsChange({ ...settings, prices: { ...prices, [model]: price } });
+
+  return (
+    <div className="border-t border-gray-700 mt-4 pt-4 text-sm">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex justify-between items-center text-gray-300 hover:text-white"
+        aria-expanded={isOpen}
+      >
+        <span className="font-semibold">Usage &amp; cost</span>
+        <span className="text-gray-400">
+          This session: {sessionTotals.requests} requests, {formatCost(sessionTotals.cost)} {isOpen ? '▲' : '▼'}
+        </span>
+      </button>
+      {warnings.map(warning => (
+        <div key={warning} className="mt-2 bg-yellow-900/50 border border-yellow-700 text-yellow-300 p-2 rounded-lg">
+          {warning}
+        </div>
+      ))}
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-4">
+          <div className="flex flex-wrap gap-3">
+            <TotalsCard title="This session" totals={sessionTotals} />
+            <TotalsCard title="Today" totals={todayTotals} />
+            <TotalsCard title="All time" totals={allTimeTotals} />
+          </div>
+          {perImage.length > 0 && <TotalsTable label="Image" rows={perImage} />}
+          {perDay.length > 0 && <TotalsTable label="Day" rows={perDay} />}
+
+          <div className="flex flex-wrap gap-4 items-center text-gray-400">
+            <label className="flex items-center gap-2">
+              Daily budget ($):
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={settings.dailyBudget ?? ''}
+                onChange={(e) => onSettingsChange({ ...settings, dailyBudget: parseBudgetInput(e.target.value) })}
+                placeholder="none"
+                className="w-24 bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Session budget ($):
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={settings.sessionBudget ?? ''}
+                onChange={(e) => onSettingsChange({ ...settings, sessionBudget: parseBudgetInput(e.target.value) })}
+                placeholder="none"
+                className="w-24 bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1"
+              />
+            </label>
+          </div>
+
+          <table className="w-full text-xs text-left">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="py-1 pr-2 font-normal">Model</th>
+                <th className="py-1 pr-2 font-normal">Input $ / 1M tokens</th>
+                <th className="py-1 font-normal">Output $ / 1M tokens</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.keys(prices).map(model => ({ model, price: prices[model] })).map(({ model, price }) => (
+                <tr key={model} className="border-t border-gray-700 text-gray-300">
+                  <td className="py-1 pr-2">{model}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={price.inputPerMillion}
+                      onChange={(e) => updatePrice(model, { ...price, inputPerMillion: Math.max(0, Number(e.target.value)) })}
+                      className="w-24 bg-gray-700 border border-gray-600 text-white rounded px-2 py-0.5"
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={price.outputPerMillion}
+                      onChange={(e) => updatePrice(model, { ...price, outputPerMillion: Math.max(0, Number(e.target.value)) })}
+                      className="w-24 bg-gray-700 border border-gray-600 text-white rounded px-2 py-0.5"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button
+            onClick={onClear}
+            disabled={records.length === 0}
+            className="self-start bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Clear usage log
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { VariantSet } from '../types';
+import { Spinner } from './Spinner';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface VariantPickerProps {
+  variants: VariantSet;
+  // Label of each promoted candidate's version, e.g. "v3".
+  getVersionLabel: (versionId: string) => string;
+  onPromote: (candidateId: string) => void;
+  onDiscard: (candidateIds?: string[]) => void;
+  // Requests still running; discarding everything waits for them.
+  isLoading: boolean;
+  theme?: Partial<CleanerTheme>;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, getVersionLabel, onPromote, onDiscard, isLoading, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  return (
+    <div className="mt-4 flex flex-col gap-3">
+      <div className={`flex flex-wrap items-center justify-between gap-2 text-sm ${theme.mutedText}`}>
+        <span className="min-w-0 truncate" title={variants.prompt}>
+          <span className={`font-semibold ${theme.strongText}`}>{variants.candidates.length} variants</span> of "{variants.prompt}" — pick one to keep
+        </span>
+        <button
+          onClick={() => onDiscard()}
+          disabled={isLoading}
+          className={`py-1 px-3 ${theme.secondaryButton}`}
+        >
+          Discard all
+        </button>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {variants.candidates.map((candidate, index) => (
+          <div
+            key={candidate.id}
+            className={`rounded-lg border overflow-hidden flex flex-col ${candidate.versionId ? theme.selectedItem : theme.unselectedItem}`}
+          >
+            <div className={`aspect-square flex items-center justify-center ${theme.inset}`}>
+              {candidate.resultUrl ? (
+                <img src={candidate.resultUrl} alt={`Variant ${index + 1}`} className="w-full h-full object-contain" />
+              ) : candidate.error ? (
+                <p className={`p-3 text-xs text-center ${theme.errorText}`}>{candidate.error.message}</p>
+              ) : (
+                <Spinner />
+              )}
+            </div>
+            <div className="p-2 flex items-center justify-between gap-2 text-sm">
+              {candidate.versionId ? (
+                <span className={theme.successText}>Kept as {getVersionLabel(candidate.versionId)}</span>
+              ) : (
+                <button
+                  onClick={() => onPromote(candidate.id)}
+                  disabled={!candidate.resultUrl}
+                  className={`py-1 px-3 ${theme.primaryButton}`}
+                >
+                  Use this
+                </button>
+              )}
+              <button
+                onClick={() => onDiscard([candidate.id])}
+                disabled={!candidate.resultUrl && !candidate.error}
+                aria-label={`Discard variant ${index + 1}`}
+                className={`px-1 ${theme.iconButton}`}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { MAX_VARIANTS, TEMPERATURE_CHOICES } from '../utils/variants';
+import type { VariantOptions } from '../utils/variants';
+
+interface VariantSettingsProps {
+  options: VariantOptions;
+  onChange: (options: VariantOptions) => void;
+  // Whether the active provider honours temperature and seed.
+  supportsSampling: boolean;
+  disabled?: boolean;
+}
+
+export const VariantSettings: React.FC<VariantSettingsProps> = ({ options, onChange, supportsSampling, disabled = false }) => (
+  <div className="mt-3 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+    <label className="flex items-center gap-2">
+      Results per clean or refine:
+      <select
+        value={options.count}
+        onChange={(e) => onChange({ ...options, count: Number(e.target.value) })}
+        disabled={disabled}
+        className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      >
+        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+          <option key={n} value={n}>{n === 1 ? '1 (apply directly)' : `${n} variants to pick from`}</option>
+        ))}
+      </select>
+    </label>
+    {supportsSampling ? (
+      <>
+        <label className="flex items-center gap-2">
+          Temperature:
+          <select
+            value={options.temperature ?? ''}
+            onChange={(e) => onChange({ ...options, temperature: e.target.value === '' ? null : Number(e.target.value) })}
+            disabled={disabled}
+            className="bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+          >
+            <option value="">Model default</option>
+            {TEMPERATURE_CHOICES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Seed:
+          <input
+            type="number"
+            step={1}
+            min={0}
+            value={options.seed ?? ''}
+            onChange={(e) => onChange({ ...options, seed: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) })}
+            placeholder="Random"
+            disabled={disabled}
+            className="w-28 bg-gray-700 border border-gray-600 text-white placeholder-gray-500 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+          />
+        </label>
+      </>
+    ) : (
+      <span className="text-gray-500">This provider has no temperature or seed settings.</span>
+    )}
+  </div>
+);
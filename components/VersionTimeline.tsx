@@ -0,0 +1,39 @@
+import React from 'react';
+import type { ImageState } from '../types';
+import { getVersionLabel } from '../utils/history';
+import { describeReferences } from '../utils/references';
+import { resolveTheme } from './theme';
+import type { CleanerTheme } from './theme';
+
+interface VersionTimelineProps {
+  image: ImageState;
+  disabled?: boolean;
+  onSelectVersion: (id: string, versionId: string) => void;
+  theme?: Partial<CleanerTheme>;
+}
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({ image, disabled = false, onSelectVersion, theme: themeOverrides }) => {
+  const theme = resolveTheme(themeOverrides);
+  if (image.history.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2" aria-label="Version history">
+      {image.history.map(entry => {
+        const isCurrent = entry.id === image.currentVersionId;
+        const parentLabel = entry.parentId ? ` (from ${getVersionLabel(image, entry.parentId)})` : '';
+        return (
+          <button
+            key={entry.id}
+            onClick={() => onSelectVersion(image.id, entry.id)}
+            disabled={disabled}
+            title={`${entry.prompt}${entry.references.length > 0 ? `\nWith ${describeReferences(entry.references)}` : ''}\n${new Date(entry.createdAt).toLocaleString()}`}
+            className={`flex-shrink-0 flex flex-col items-center gap-1 p-1 rounded-lg border-2 transition-colors disabled:opacity-50 ${isCurrent ? theme.selectedItem : theme.unselectedItem}`}
+          >
+            <img src={entry.resultUrl} alt={`Version ${getVersionLabel(image, entry.id)}`} className="h-16 w-16 object-cover rounded" />
+            <span className={`text-xs ${theme.mutedText}`}>{getVersionLabel(image, entry.id)}{parentLabel}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
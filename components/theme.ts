@@ -0,0 +1,72 @@
+// Tailwind classes for ImageProcessor, ImageDisplay and every control they render (version
+// timeline, preset picker, style references, variants, canvas extension, mask editor, comparison
+// viewer and error panel). Components add their own layout classes (size, spacing, position), so
+// a theme only needs to say how things look. Pass a partial theme to override some slots and keep
+// the defaults for the rest. The standalone app's own chrome (gallery, toolbar, settings panels)
+// is not themeable.
+export interface CleanerTheme {
+  // Card around an image's editor.
+  panel: string;
+  // Frame around the original and processed images and the comparison viewer.
+  imageFrame: string;
+  // Nested surfaces inside the panel: reference rows, variant previews, diagnostics.
+  inset: string;
+  // Labels, toolbars and loading screens drawn on top of an image.
+  overlay: string;
+  heading: string;
+  // Labels and section titles that stand out from the surrounding text.
+  strongText: string;
+  mutedText: string;
+  // Secondary notes and empty-state placeholders.
+  subtleText: string;
+  successText: string;
+  warningText: string;
+  errorText: string;
+  input: string;
+  primaryButton: string;
+  secondaryButton: string;
+  dangerButton: string;
+  downloadButton: string;
+  // Small borderless buttons such as "remove image" and "discard variant".
+  iconButton: string;
+  // Selected and unselected states of the Refine / Extend canvas switch, the anchor grid and the
+  // mask tools.
+  toggleActive: string;
+  toggleInactive: string;
+  // Borders of the current and other entries in the version timeline and variant picker.
+  selectedItem: string;
+  unselectedItem: string;
+  // Quality check results.
+  successBadge: string;
+  warningBadge: string;
+  errorPanel: string;
+}
+
+export const DEFAULT_THEME: CleanerTheme = {
+  panel: 'bg-gray-800/50 rounded-2xl shadow-lg border border-gray-700',
+  imageFrame: 'bg-gray-800 rounded-2xl shadow-lg border border-gray-700',
+  inset: 'bg-gray-900/50 rounded-lg',
+  overlay: 'bg-gray-900/70 text-gray-300',
+  heading: 'text-2xl font-bold text-gray-300',
+  strongText: 'text-gray-300',
+  mutedText: 'text-gray-400',
+  subtleText: 'text-gray-500',
+  successText: 'text-teal-300',
+  warningText: 'text-yellow-300',
+  errorText: 'text-red-300',
+  input: 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition disabled:opacity-50',
+  primaryButton: 'bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-wait focus:outline-none focus:ring-4 focus:ring-blue-500/50',
+  secondaryButton: 'bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50',
+  dangerButton: 'bg-red-700 hover:bg-red-600 text-white rounded-lg transition-colors',
+  downloadButton: 'bg-green-600 hover:bg-green-500 text-white font-bold rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-500/50',
+  iconButton: 'text-gray-500 hover:text-white transition-colors disabled:opacity-50',
+  toggleActive: 'bg-blue-600 text-white',
+  toggleInactive: 'bg-gray-700 text-gray-300 hover:bg-gray-600',
+  selectedItem: 'border-teal-400 bg-gray-700',
+  unselectedItem: 'border-gray-700 hover:border-gray-500',
+  successBadge: 'bg-green-900/50 border border-green-700 text-green-300 rounded-lg',
+  warningBadge: 'bg-yellow-900/50 border border-yellow-700 text-yellow-300 rounded-lg',
+  errorPanel: 'bg-red-900/50 border border-red-700 text-red-300 rounded-lg',
+};
+
+export const resolveTheme = (theme: Partial<CleanerTheme> = {}): CleanerTheme => ({ ...DEFAULT_THEME, ...theme });
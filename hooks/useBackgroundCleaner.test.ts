@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useBackgroundCleaner } from './useBackgroundCleaner';
+import { generateContent, imageResponse } from '../test/fakeGenAI';
+import { fetchObjectUrl } from '../test/objectUrls';
+import { setActiveSelection } from '../services/imageEditProvider';
+import { loadWorkspace, saveImage } from '../services/workspaceStore';
+import type { ImageState } from '../types';
+
+vi.mock('@google/genai', () => import('../test/fakeGenAI'));
+
+vi.mock('../services/workspaceStore', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/workspaceStore')>(),
+  loadWorkspace: vi.fn(async () => []),
+  saveImage: vi.fn(async () => {}),
+  deleteImage: vi.fn(async () => {}),
+  clearWorkspace: vi.fn(async () => {}),
+}));
+
+vi.mock('../utils/imagePreprocessing', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/imagePreprocessing')>(),
+  preprocessImage: vi.fn(async () => ({
+    base64: btoa('source image'),
+    mimeType: 'image/jpeg',
+    dataUrl: `data:image/jpeg;base64,${btoa('source image')}`,
+    originalDimensions: { width: 800, height: 600 },
+  })),
+}));
+
+const jpeg = (name: string) => new File(['jpeg'], name, { type: 'image/jpeg' });
+
+describe('useBackgroundCleaner', () => {
+  beforeEach(() => {
+    process.env.API_KEY = 'test-key';
+    generateContent.mockReset();
+    vi.mocked(loadWorkspace).mockImplementation(async () => []);
+    vi.mocked(saveImage).mockImplementation(async () => {});
+    setActiveSelection({ providerId: 'gemini', model: 'gemini-2.5-flash-image' });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const response = fetchObjectUrl(url);
+      if (!response) throw new TypeError(`Unexpected fetch: ${url}`);
+      return response;
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reports added images, new versions and failures through its callbacks', async () => {
+    const onImagesAdded = vi.fn();
+    const onImageProcessed = vi.fn();
+    const onError = vi.fn();
+    const { result } = renderHook(() => useBackgroundCleaner({ persistWorkspace: false, onImagesAdded, onImageProcessed, onError }));
+
+    await act(() => result.current.addFiles([jpeg('beach.jpg'), jpeg('street.jpg')]));
+    expect(onImagesAdded).toHaveBeenCalledTimes(2);
+    const [beach, street] = result.current.images;
+
+    generateContent
+      .mockResolvedValueOnce(imageResponse())
+      .mockResolvedValueOnce({ candidates: [{ finishReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', blocked: true }] }] });
+    await act(() => result.current.cleanImages());
+
+    await waitFor(() => expect(onImageProcessed).toHaveBeenCalledTimes(1));
+    const [processedImage, version] = onImageProcessed.mock.calls[0];
+    expect(processedImage.id).toBe(beach.id);
+    expect(version.resultUrl).toBe(processedImage.latestProcessedImageUrl);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ kind: 'safety' }), expect.objectContaining({ id: street.id }));
+    expect(loadWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('reports batch-level errors without an image', async () => {
+    const onError = vi.fn();
+    const { result } = renderHook(() => useBackgroundCleaner({ persistWorkspace: false, onError }));
+
+    await act(() => result.current.addFiles([new File(['text'], 'notes.txt', { type: 'text/plain' })]));
+
+    expect(result.current.images).toEqual([]);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'notes.txt: Invalid file type. Please upload an image.' }), null);
+  });
+
+  it('cancels running jobs and revokes its object URLs when unmounted', async () => {
+    const { result, unmount } = renderHook(() => useBackgroundCleaner({ persistWorkspace: false }));
+    await act(() => result.current.addFiles([jpeg('beach.jpg')]));
+    const [image] = result.current.images;
+    const originalUrl = image.displayOriginalImageUrl;
+    expect(fetchObjectUrl(originalUrl)).not.toBeNull();
+
+    let requestSignal: AbortSignal | undefined;
+    generateContent.mockImplementation(({ config }: { config: { abortSignal: AbortSignal } }) => {
+      requestSignal = config.abortSignal;
+      return new Promise(() => {});
+    });
+    act(() => {
+      result.current.clean(image.id);
+    });
+    await waitFor(() => expect(requestSignal).toBeDefined());
+
+    unmount();
+
+    expect(requestSignal?.aborted).toBe(true);
+    expect(fetchObjectUrl(originalUrl)).toBeNull();
+  });
+
+  it('saves a prompt-only edit so it survives a reload', async () => {
+    const stored = new Map<string, ImageState>();
+    vi.mocked(saveImage).mockImplementation(async (image) => {
+      stored.set(image.id, image);
+    });
+    vi.mocked(loadWorkspace).mockImplementation(async () => [...stored.values()]);
+
+    const first = renderHook(() => useBackgroundCleaner());
+    await waitFor(() => expect(loadWorkspace).toHaveBeenCalled());
+    await act(() => first.result.current.addFiles([jpeg('beach.jpg')]));
+    const [image] = first.result.current.images;
+    await waitFor(() => expect(stored.has(image.id)).toBe(true));
+
+    act(() => first.result.current.setPrompt(image.id, 'Make the sky bluer'));
+    await waitFor(() => expect(stored.get(image.id)?.prompt).toBe('Make the sky bluer'));
+    first.unmount();
+
+    const second = renderHook(() => useBackgroundCleaner());
+    await waitFor(() => expect(second.result.current.images).toHaveLength(1));
+    expect(second.result.current.images[0].prompt).toBe('Make the sky bluer');
+  });
+});
@@ -0,0 +1,807 @@
+import { useEffect, useRef, useState } from 'react';
+import { processImageUrl } from '../services/geminiService';
+import { DEFAULT_TILING_OPTIONS, processImageTiled } from '../services/tiledProcessing';
+import type { TilingOptions } from '../services/tiledProcessing';
+import { describeOutpaintRequest, outpaintImage } from '../services/outpainting';
+import type { OutpaintRequest } from '../services/outpainting';
+import { createProcessingQueue, JobCancelledError } from '../services/processingQueue';
+import type { QueueStatus } from '../services/processingQueue';
+import { DEFAULT_QUALITY_CHECK_OPTIONS, findLeftovers, summarizeLeftovers } from '../services/qualityCheck';
+import type { QualityCheckOptions } from '../services/qualityCheck';
+import { toErrorInfo } from '../services/imageEditErrors';
+import type { ImageErrorInfo } from '../services/imageEditErrors';
+import { getActiveSelection, getProvider } from '../services/imageEditProvider';
+import type { ProviderSelection, SamplingOptions } from '../services/imageEditProvider';
+import { clearWorkspace, deleteImage, hasPersistentChanges, loadWorkspace, saveImage } from '../services/workspaceStore';
+import { buildProjectFileName, openProject, saveProject } from '../services/projectFile';
+import type { ProjectSettings } from '../services/projectFile';
+import { urlToInfo, fileNameFromUrl, isSupportedImageFile, dataUrlToBlob, imageUrlToBlob, revokeObjectUrls, toObjectUrl } from '../utils/fileUtils';
+import { releaseThumbnails } from '../utils/thumbnails';
+import { copyImageToClipboard } from '../utils/clipboard';
+import { MAX_REFERENCES, toReferenceRecords, toReferenceSources } from '../utils/references';
+import { createVariantCandidates, DEFAULT_VARIANT_OPTIONS, getVariantSampling } from '../utils/variants';
+import type { VariantOptions } from '../utils/variants';
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage } from '../utils/imagePreprocessing';
+import type { ImageDimensions, PreprocessOptions } from '../utils/imagePreprocessing';
+import { boxesToMask } from '../utils/maskUtils';
+import type { MaskState } from '../utils/maskUtils';
+import { DEFAULT_PRESET_ID, findPreset, getAllPresets, loadCustomPresets, renderPresetPrompt, saveCustomPresets } from '../utils/presets';
+import type { CleaningPreset, PresetSelection } from '../utils/presets';
+import type { RefinementRecipe } from '../utils/recipes';
+import { DEFAULT_EXPORT_OPTIONS, downloadBlob, exportImage, exportImagesAsZip } from '../utils/exportUtils';
+import type { ExportOptions } from '../utils/exportUtils';
+import { addVersion, redo, selectVersion, undo } from '../utils/history';
+import type { HistoryEntry, ImageState, StyleReference, VariantCandidate, VariantSet } from '../types';
+
+export interface BackgroundCleanerOptions {
+  // Keep the images in IndexedDB so they survive a reload. On by default; turn it off when the
+  // host application stores results itself.
+  persistWorkspace?: boolean;
+  // Called with each batch of images added from files, URLs or the restored workspace.
+  onImagesAdded?: (images: ImageState[]) => void;
+  // Called for every new version: a clean, refinement, recipe step, canvas extension, automatic
+  // re-clean or promoted variant.
+  onImageProcessed?: (image: ImageState, version: HistoryEntry) => void;
+  // Called when a job on an image fails, or with a null image for errors that concern the whole
+  // batch, such as a failed export. Cancelled jobs are not errors.
+  onError?: (error: ImageErrorInfo, image: ImageState | null) => void;
+}
+
+export type BackgroundCleaner = ReturnType<typeof useBackgroundCleaner>;
+
+// Saves wait this long for further edits to the same image, so typing a prompt or a run of quick
+// updates writes the record once.
+const SAVE_DELAY_MS = 400;
+
+const MASKED_CLEANING_PROMPT = "Remove everything inside the masked area and realistically reconstruct the background there so that it blends seamlessly with its surroundings.";
+
+const createImageState = (sourceName: string, dataUrl: string, originalDimensions: ImageDimensions): ImageState => ({
+  id: `${Date.now()}-${Math.random()}`,
+  sourceName,
+  displayOriginalImageUrl: toObjectUrl(dataUrl),
+  latestProcessedImageUrl: null,
+  prompt: '',
+  isLoading: false,
+  isProcessed: false,
+  error: null,
+  history: [],
+  currentVersionId: null,
+  redoStack: [],
+  mask: null,
+  preset: null,
+  originalDimensions,
+  progressMessage: null,
+  qualityCheck: null,
+  references: [],
+  variants: null,
+});
+
+const getUnpromotedVariantUrls = (image: ImageState): string[] =>
+  (image.variants?.candidates ?? []).flatMap(c => c.resultUrl && !c.versionId ? [c.resultUrl] : []);
+
+// Revokes every object URL an image owns (original, versions, references, unpromoted variants)
+// and drops their cached thumbnails.
+const releaseImageUrls = (removed: ImageState[]) => {
+  const urls = removed.flatMap(img => [
+    img.displayOriginalImageUrl,
+    ...img.history.map(entry => entry.resultUrl),
+    ...img.references.map(reference => reference.imageUrl),
+    ...getUnpromotedVariantUrls(img),
+  ]);
+  releaseThumbnails(urls);
+  revokeObjectUrls(urls);
+};
+
+// Owns the images of a cleaning session and every action on them: adding, cleaning, refining,
+// removing and exporting, with the processing queue, batch settings and saved workspace behind
+// them. The app's own UI is one consumer; embedders can drive it with their own components.
+export const useBackgroundCleaner = (options: BackgroundCleanerOptions = {}) => {
+  const { persistWorkspace = true } = options;
+  const [images, setImages] = useState<ImageState[]>([]);
+  const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false);
+  const [isRecipeRunning, setIsRecipeRunning] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [isProjectBusy, setIsProjectBusy] = useState<boolean>(false);
+  // Errors that concern the batch rather than one image; image errors live on the image.
+  const [error, setError] = useState<string | null>(null);
+  const [isWorkspaceRestored, setIsWorkspaceRestored] = useState<boolean>(false);
+  const persistedImagesRef = useRef<Map<string, ImageState>>(new Map());
+  // Saves waiting for SAVE_DELAY_MS to pass, per image.
+  const scheduledSavesRef = useRef<Map<string, { timer: ReturnType<typeof setTimeout>; save: () => void }>>(new Map());
+  const [processingQueue] = useState(() => createProcessingQueue());
+  const [queueStatus, setQueueStatus] = useState<QueueStatus>(() => processingQueue.getStatus());
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [customPresets, setCustomPresets] = useState<CleaningPreset[]>(() => loadCustomPresets());
+  const [batchPreset, setBatchPreset] = useState<PresetSelection>({ presetId: DEFAULT_PRESET_ID, variables: {} });
+  const allPresets = getAllPresets(customPresets);
+  // How to retry the last failed job of an image when it was not a plain clean or refine,
+  // e.g. resuming a recipe from the failed step.
+  const retryActionsRef = useRef<Map<string, (image: ImageState) => void>>(new Map());
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [tilingOptions, setTilingOptions] = useState<TilingOptions>(DEFAULT_TILING_OPTIONS);
+  const [qualityCheckOptions, setQualityCheckOptions] = useState<QualityCheckOptions>(DEFAULT_QUALITY_CHECK_OPTIONS);
+  const [variantOptions, setVariantOptions] = useState<VariantOptions>(DEFAULT_VARIANT_OPTIONS);
+  const [providerSelection, setProviderSelection] = useState<ProviderSelection>(() => getActiveSelection());
+  const supportsSampling = getProvider(providerSelection.providerId).supportsSampling;
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  // Callbacks are read through a ref so effects always call the latest ones.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Versions and errors already reported per image; images seen for the first time (added,
+  // restored or opened) are recorded without firing callbacks for what they already contain.
+  const reportedRef = useRef<Map<string, { versions: number; error: ImageErrorInfo | null }>>(new Map());
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  useEffect(() => processingQueue.subscribe(setQueueStatus), [processingQueue]);
+
+  // On unmount, stop every queued and running job and free the URLs the images still hold.
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  useEffect(() => () => {
+    processingQueue.cancelAll();
+    releaseImageUrls(imagesRef.current);
+  }, [processingQueue]);
+
+  useEffect(() => {
+    processingQueue.setConcurrency(concurrency);
+  }, [processingQueue, concurrency]);
+
+  useEffect(() => {
+    if (!persistWorkspace) return;
+    loadWorkspace()
+      .then(restored => {
+        restored.forEach(image => persistedImagesRef.current.set(image.id, image));
+        setImages(prev => [...restored.filter(image => !prev.some(img => img.id === image.id)), ...prev]);
+        if (restored.length > 0) optionsRef.current.onImagesAdded?.(restored);
+      })
+      .catch(err => console.error("Failed to restore the saved workspace:", err))
+      .finally(() => setIsWorkspaceRestored(true));
+  }, [persistWorkspace]);
+
+  const cancelScheduledSave = (id: string) => {
+    const scheduled = scheduledSavesRef.current.get(id);
+    if (!scheduled) return;
+    clearTimeout(scheduled.timer);
+    scheduledSavesRef.current.delete(id);
+  };
+
+  // Writes every waiting save now, e.g. before the page is hidden or the hook unmounts.
+  const flushScheduledSaves = () => {
+    scheduledSavesRef.current.forEach(({ save }) => save());
+  };
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushScheduledSaves);
+    return () => {
+      window.removeEventListener('pagehide', flushScheduledSaves);
+      flushScheduledSaves();
+    };
+  }, []);
+
+  // Only images with changes beyond transient fields (see hasPersistentChanges) are written back,
+  // once they have stopped changing for SAVE_DELAY_MS.
+  useEffect(() => {
+    if (!persistWorkspace || !isWorkspaceRestored) return;
+    const persisted = persistedImagesRef.current;
+    images.forEach((image, position) => {
+      const saved = persisted.get(image.id);
+      if (saved && !hasPersistentChanges(saved, image)) return;
+      persisted.set(image.id, image);
+      cancelScheduledSave(image.id);
+      const save = () => {
+        cancelScheduledSave(image.id);
+        saveImage(image, position).catch(err => console.error("Failed to save image to the workspace:", err));
+      };
+      scheduledSavesRef.current.set(image.id, { timer: setTimeout(save, SAVE_DELAY_MS), save });
+    });
+    persisted.forEach((_, id) => {
+      if (images.some(img => img.id === id)) return;
+      persisted.delete(id);
+      cancelScheduledSave(id);
+      deleteImage(id).catch(err => console.error("Failed to delete image from the workspace:", err));
+    });
+  }, [images, isWorkspaceRestored, persistWorkspace]);
+
+  // History is append-only, so new versions are the entries past the last reported count.
+  useEffect(() => {
+    const reported = reportedRef.current;
+    const { onImageProcessed, onError } = optionsRef.current;
+    images.forEach(image => {
+      const previous = reported.get(image.id);
+      reported.set(image.id, { versions: image.history.length, error: image.error });
+      if (!previous) return;
+      image.history.slice(previous.versions).forEach(version => onImageProcessed?.(image, version));
+      if (image.error && image.error !== previous.error) onError?.(image.error, image);
+    });
+    reported.forEach((_, id) => {
+      if (!images.some(img => img.id === id)) reported.delete(id);
+    });
+  }, [images]);
+
+  useEffect(() => {
+    if (error) optionsRef.current.onError?.(toErrorInfo(new Error(error), error), null);
+  }, [error]);
+
+  const updateImage = (id: string, update: (img: ImageState) => ImageState) =>
+    setImages(prev => prev.map(img => img.id === id ? update(img) : img));
+
+  // Files are decoded one at a time so adding hundreds of images does not hold them all in memory at once.
+  const addFiles = async (files: File[]) => {
+    setError(null);
+
+    for (const file of files) {
+      try {
+        if (!isSupportedImageFile(file)) {
+          throw new Error("Invalid file type. Please upload an image.");
+        }
+        const { dataUrl, originalDimensions } = await preprocessImage(file, preprocessOptions);
+        const newImage = createImageState(file.name, dataUrl, originalDimensions);
+        setImages(prev => [...prev, newImage]);
+        optionsRef.current.onImagesAdded?.([newImage]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load an image from file.';
+        setError(`${file.name}: ${message}`);
+      }
+    }
+  };
+
+  // Returns the URLs that failed so they can be corrected and retried.
+  const addUrls = async (urls: string[]): Promise<string[]> => {
+    setError(null);
+    const results = await Promise.allSettled(urls.map(async url => {
+      const { dataUrl } = await urlToInfo(url);
+      return preprocessImage(dataUrlToBlob(dataUrl), preprocessOptions);
+    }));
+    const newImages: ImageState[] = [];
+    const failedUrls: string[] = [];
+    const failures: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failedUrls.push(urls[index]);
+        failures.push(`${urls[index]}: ${result.reason instanceof Error ? result.reason.message : 'Failed to load image from URL.'}`);
+        return;
+      }
+      const { dataUrl, originalDimensions } = result.value;
+      newImages.push(createImageState(fileNameFromUrl(urls[index]), dataUrl, originalDimensions));
+    });
+
+    setImages(prev => [...prev, ...newImages]);
+    if (newImages.length > 0) optionsRef.current.onImagesAdded?.(newImages);
+    if (failures.length > 0) {
+      setError(failures.join(' '));
+    }
+    return failedUrls;
+  };
+
+  const getPresetPrompt = (image: ImageState): string => {
+    const presetSelection = image.preset ?? batchPreset;
+    return renderPresetPrompt(findPreset(allPresets, presetSelection.presetId), presetSelection.variables);
+  };
+
+  // Asks the model for leftovers of what the preset should have removed. With auto re-clean on,
+  // each failing check masks the reported boxes and cleans them again, up to the retry cap.
+  // Expects the image to be marked as loading and clears that when done.
+  const runQualityCheck = async (image: ImageState, resultUrl: string): Promise<void> => {
+    const { autoReclean, maxRecleanAttempts } = qualityCheckOptions;
+    const presetPrompt = getPresetPrompt(image);
+
+    let currentUrl = resultUrl;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const checkedUrl = currentUrl;
+        updateImage(image.id, img => ({ ...img, progressMessage: attempt === 0 ? 'Checking for leftovers…' : `Re-checking (re-clean ${attempt}/${maxRecleanAttempts})…` }));
+        const detections = await processingQueue.enqueue(image.id, signal => findLeftovers(checkedUrl, presetPrompt, { signal, imageId: image.id }));
+        updateImage(image.id, img => ({
+          ...img,
+          qualityCheck: {
+            status: detections.length === 0 ? 'pass' : 'warn',
+            detections,
+            versionId: img.currentVersionId,
+            checkedAt: Date.now(),
+            recleanAttempts: attempt,
+          },
+        }));
+        if (detections.length === 0 || !autoReclean || attempt >= maxRecleanAttempts) break;
+
+        const leftovers = summarizeLeftovers(detections);
+        updateImage(image.id, img => ({ ...img, progressMessage: `Re-cleaning ${leftovers} (${attempt + 1}/${maxRecleanAttempts})` }));
+        const mask = await boxesToMask(checkedUrl, detections.map(d => d.box));
+        currentUrl = await processingQueue.enqueue(image.id, signal => processImageUrl(checkedUrl, MASKED_CLEANING_PROMPT, mask, { signal, imageId: image.id }).then(toObjectUrl));
+        const recleanedUrl = currentUrl;
+        updateImage(image.id, img => addVersion(img, recleanedUrl, `Re-clean leftovers: ${leftovers}`, img.currentVersionId));
+      }
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) {
+        const error = toErrorInfo(err, 'An unknown error occurred during the quality check.');
+        const failedUrl = currentUrl;
+        retryActionsRef.current.set(image.id, img => checkImageQuality(img, failedUrl));
+        updateImage(image.id, img => ({ ...img, error: { ...error, message: `Quality check failed: ${error.message}` } }));
+      }
+    }
+    updateImage(image.id, img => ({ ...img, isLoading: false, progressMessage: null }));
+  };
+
+  const checkImageQuality = (image: ImageState, imageUrl: string) => {
+    retryActionsRef.current.delete(image.id);
+    updateImage(image.id, img => ({ ...img, isLoading: true, error: null }));
+    return runQualityCheck(image, imageUrl);
+  };
+
+  const checkQuality = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (!image || !image.latestProcessedImageUrl || image.isLoading) return;
+    checkImageQuality(image, image.latestProcessedImageUrl);
+  };
+
+  // Sends the same request once per variant, in parallel through the queue, and leaves the results
+  // in the image's picker. Replaces any earlier variants that were not promoted.
+  const generateVariants = async (
+    image: ImageState,
+    variants: Omit<VariantSet, 'candidates'>,
+    run: (signal: AbortSignal, sampling: SamplingOptions | undefined) => Promise<string>
+  ): Promise<void> => {
+    const updateCandidates = (update: (candidates: VariantCandidate[]) => VariantCandidate[]) =>
+      updateImage(image.id, img => img.variants ? { ...img, variants: { ...img.variants, candidates: update(img.variants.candidates) } } : img);
+
+    const candidates = createVariantCandidates(variantOptions.count);
+    revokeObjectUrls(getUnpromotedVariantUrls(image));
+    retryActionsRef.current.delete(image.id);
+    updateImage(image.id, img => ({
+      ...img,
+      isLoading: true,
+      error: null,
+      qualityCheck: variants.kind === 'clean' ? null : img.qualityCheck,
+      variants: { ...variants, candidates },
+    }));
+
+    const failures: ImageErrorInfo[] = [];
+    let succeeded = 0;
+    await Promise.all(candidates.map(async (candidate, index) => {
+      try {
+        const sampling = getVariantSampling(variantOptions, index, supportsSampling);
+        const resultUrl = await processingQueue.enqueue(image.id, signal => run(signal, sampling).then(toObjectUrl));
+        succeeded++;
+        updateCandidates(list => list.map(c => c.id === candidate.id ? { ...c, resultUrl } : c));
+      } catch (err) {
+        if (err instanceof JobCancelledError) {
+          updateCandidates(list => list.filter(c => c.id !== candidate.id));
+          return;
+        }
+        const error = toErrorInfo(err, 'An unknown error occurred while generating this variant.');
+        failures.push(error);
+        updateCandidates(list => list.map(c => c.id === candidate.id ? { ...c, error } : c));
+      }
+    }));
+
+    const allFailed = succeeded === 0 && failures.length > 0;
+    if (allFailed) retryActionsRef.current.set(image.id, img => generateVariants(img, variants, run));
+    updateImage(image.id, img => ({
+      ...img,
+      isLoading: false,
+      progressMessage: null,
+      variants: allFailed || img.variants?.candidates.length === 0 ? null : img.variants,
+      error: allFailed ? { ...failures[0], message: `All ${failures.length} variants failed: ${failures[0].message}` } : img.error,
+    }));
+  };
+
+  const promoteVariant = (id: string, candidateId: string) => {
+    const image = images.find(img => img.id === id);
+    const variants = image?.variants;
+    const resultUrl = variants?.candidates.find(c => c.id === candidateId && !c.versionId)?.resultUrl;
+    if (!image || !variants || !resultUrl) return;
+
+    updateImage(id, img => {
+      if (!img.variants) return img;
+      const promoted = addVersion(img, resultUrl, variants.prompt, variants.parentId, variants.references);
+      return {
+        ...promoted,
+        isProcessed: true,
+        variants: {
+          ...img.variants,
+          candidates: img.variants.candidates.map(c => c.id === candidateId ? { ...c, versionId: promoted.currentVersionId } : c),
+        },
+      };
+    });
+    if (variants.kind === 'clean' && qualityCheckOptions.enabled && !image.isLoading) checkImageQuality(image, resultUrl);
+  };
+
+  // Without ids, discards the whole set. Promoted candidates live on in the history.
+  const discardVariants = (id: string, candidateIds?: string[]) => {
+    const image = images.find(img => img.id === id);
+    if (!image?.variants) return;
+    const isDiscarded = (candidate: VariantCandidate) => !candidateIds || candidateIds.includes(candidate.id);
+    revokeObjectUrls(image.variants.candidates.filter(c => isDiscarded(c) && c.resultUrl && !c.versionId).map(c => c.resultUrl!));
+    updateImage(id, img => {
+      if (!img.variants) return img;
+      const candidates = img.variants.candidates.filter(c => !isDiscarded(c));
+      return { ...img, variants: candidates.length > 0 ? { ...img.variants, candidates } : null };
+    });
+  };
+
+  const cleanImage = (image: ImageState): Promise<void> => {
+    const cleaningPrompt = image.mask ? MASKED_CLEANING_PROMPT : getPresetPrompt(image);
+    const references = toReferenceSources(image.references);
+
+    const setProgressMessage = (progressMessage: string) =>
+      updateImage(image.id, img => ({ ...img, progressMessage }));
+    const runCleaning = (signal: AbortSignal, sampling: SamplingOptions | undefined) => tilingOptions.enabled
+      ? processImageTiled(image.displayOriginalImageUrl, cleaningPrompt, image.mask, tilingOptions, ({ completed, skipped, total }) => {
+          setProgressMessage(`Tile ${Math.min(completed + 1, total)}/${total}${skipped ? ` (${skipped} skipped)` : ''}`);
+        }, { signal, imageId: image.id, references, sampling })
+      : processImageUrl(image.displayOriginalImageUrl, cleaningPrompt, image.mask, { signal, imageId: image.id, references, sampling });
+
+    if (variantOptions.count > 1) {
+      return generateVariants(image, { kind: 'clean', prompt: cleaningPrompt, parentId: null, references: toReferenceRecords(image.references) }, runCleaning);
+    }
+
+    retryActionsRef.current.delete(image.id);
+    updateImage(image.id, img => ({ ...img, isLoading: true, error: null, qualityCheck: null }));
+    return processingQueue
+      .enqueue(image.id, signal => runCleaning(signal, getVariantSampling(variantOptions, 0, supportsSampling)).then(toObjectUrl))
+      .then(resultUrl => {
+        // Stays loading through the quality check so batch runs wait for it.
+        updateImage(image.id, img => ({
+          ...addVersion(img, resultUrl, cleaningPrompt, null, toReferenceRecords(image.references)),
+          isProcessed: true,
+          isLoading: qualityCheckOptions.enabled,
+          progressMessage: null,
+        }));
+        if (qualityCheckOptions.enabled) return runQualityCheck(image, resultUrl);
+      })
+      .catch(err => {
+        if (err instanceof JobCancelledError) {
+          updateImage(image.id, img => ({ ...img, isLoading: false, progressMessage: null }));
+          return;
+        }
+        const error = toErrorInfo(err, 'An unknown error occurred during cleaning.');
+        updateImage(image.id, img => ({ ...img, isLoading: false, error, progressMessage: null }));
+      });
+  };
+
+  // Images with variants waiting to be picked are left alone until they are promoted or discarded.
+  const isCleanable = (image: ImageState) => !image.isProcessed && !image.isLoading && !image.variants;
+
+  const clean = (id: string): Promise<void> => {
+    const image = images.find(img => img.id === id);
+    return image && isCleanable(image) ? cleanImage(image) : Promise.resolve();
+  };
+
+  // Cleans the given images, or every image, skipping those that are not cleanable.
+  const cleanImages = async (ids?: string[]) => {
+    setIsBatchProcessing(true);
+    setError(null);
+    const targets = ids ? images.filter(img => ids.includes(img.id)) : images;
+    await Promise.all(targets.filter(isCleanable).map(cleanImage));
+    setIsBatchProcessing(false);
+  };
+
+  const refine = async (id: string) => {
+    const imageToRefine = images.find(img => img.id === id);
+    if (!imageToRefine || !imageToRefine.latestProcessedImageUrl || !imageToRefine.prompt.trim()) return;
+    const { prompt, currentVersionId } = imageToRefine;
+    const references = toReferenceSources(imageToRefine.references);
+    const baseUrl = imageToRefine.latestProcessedImageUrl;
+    const runRefinement = (signal: AbortSignal, sampling: SamplingOptions | undefined) =>
+      processImageUrl(baseUrl, prompt, null, { signal, imageId: id, references, sampling });
+
+    if (variantOptions.count > 1) {
+      return generateVariants(imageToRefine, { kind: 'refine', prompt, parentId: currentVersionId, references: toReferenceRecords(imageToRefine.references) }, runRefinement);
+    }
+
+    retryActionsRef.current.delete(id);
+    updateImage(id, img => ({ ...img, isLoading: true, error: null }));
+
+    try {
+      const resultUrl = await processingQueue.enqueue(id, signal => runRefinement(signal, getVariantSampling(variantOptions, 0, supportsSampling)).then(toObjectUrl));
+      updateImage(id, img => ({
+        ...addVersion(img, resultUrl, prompt, currentVersionId, toReferenceRecords(imageToRefine.references)),
+        isLoading: false,
+      }));
+    } catch (err) {
+      if (err instanceof JobCancelledError) {
+        updateImage(id, img => ({ ...img, isLoading: false }));
+        return;
+      }
+      const error = toErrorInfo(err, 'An unknown error occurred during refinement.');
+      updateImage(id, img => ({ ...img, isLoading: false, error }));
+    }
+  };
+
+  const extendCanvas = async (id: string, request: OutpaintRequest) => {
+    const image = images.find(img => img.id === id);
+    if (!image || !image.latestProcessedImageUrl) return;
+    const { currentVersionId } = image;
+    const baseUrl = image.latestProcessedImageUrl;
+
+    retryActionsRef.current.delete(id);
+    updateImage(id, img => ({ ...img, isLoading: true, error: null }));
+
+    try {
+      const resultUrl = await processingQueue.enqueue(id, signal => outpaintImage(baseUrl, request, { signal, imageId: id }).then(toObjectUrl));
+      updateImage(id, img => ({
+        ...addVersion(img, resultUrl, describeOutpaintRequest(request), currentVersionId),
+        isLoading: false,
+      }));
+    } catch (err) {
+      if (err instanceof JobCancelledError) {
+        updateImage(id, img => ({ ...img, isLoading: false }));
+        return;
+      }
+      const error = toErrorInfo(err, 'An unknown error occurred while extending the canvas.');
+      retryActionsRef.current.set(id, () => extendCanvas(id, request));
+      updateImage(id, img => ({ ...img, isLoading: false, error }));
+    }
+  };
+
+  // Applies each recipe step to the previous step's result, keeping every step as a version.
+  // A failed step stops only this image; the other images in the batch carry on.
+  const runRecipeOnImage = async (image: ImageState, recipe: RefinementRecipe): Promise<void> => {
+    retryActionsRef.current.delete(image.id);
+    updateImage(image.id, img => ({ ...img, isLoading: true, error: null }));
+
+    let currentUrl = image.latestProcessedImageUrl ?? image.displayOriginalImageUrl;
+    const references = toReferenceSources(image.references);
+    for (const [index, step] of recipe.steps.entries()) {
+      updateImage(image.id, img => ({ ...img, progressMessage: `Step ${index + 1}/${recipe.steps.length}: ${step}` }));
+      try {
+        const baseUrl = currentUrl;
+        const resultUrl = await processingQueue.enqueue(image.id, signal => processImageUrl(baseUrl, step, null, { signal, imageId: image.id, references }).then(toObjectUrl));
+        currentUrl = resultUrl;
+        updateImage(image.id, img => ({ ...addVersion(img, resultUrl, step, img.currentVersionId, toReferenceRecords(image.references)), isProcessed: true }));
+      } catch (err) {
+        if (err instanceof JobCancelledError) {
+          updateImage(image.id, img => ({ ...img, isLoading: false, progressMessage: null }));
+          return;
+        }
+        const error = toErrorInfo(err, 'An unknown error occurred while running the recipe.');
+        retryActionsRef.current.set(image.id, img => runRecipeOnImage(img, { ...recipe, steps: recipe.steps.slice(index) }));
+        updateImage(image.id, img => ({
+          ...img,
+          isLoading: false,
+          progressMessage: null,
+          error: { ...error, message: `Step ${index + 1} of "${recipe.name}" failed: ${error.message}` },
+        }));
+        return;
+      }
+    }
+    updateImage(image.id, img => ({ ...img, isLoading: false, progressMessage: null }));
+  };
+
+  const runRecipe = async (recipe: RefinementRecipe) => {
+    setIsRecipeRunning(true);
+    setError(null);
+    await Promise.all(images.filter(img => !img.isLoading).map(img => runRecipeOnImage(img, recipe)));
+    setIsRecipeRunning(false);
+  };
+
+  // Repeats whichever step failed: the initial clean, the refinement of a processed image, or
+  // the remaining steps of a recipe.
+  const retry = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (!image || image.isLoading) return;
+    const retryAction = retryActionsRef.current.get(id);
+    if (retryAction) {
+      retryAction(image);
+    } else if (image.isProcessed) {
+      refine(id);
+    } else {
+      cleanImage(image);
+    }
+  };
+
+  const removeImages = (ids: string[]) => {
+    const removedIds = new Set(ids);
+    ids.forEach(id => {
+      processingQueue.cancel(id);
+      retryActionsRef.current.delete(id);
+    });
+    releaseImageUrls(images.filter(img => removedIds.has(img.id)));
+    setImages(prev => prev.filter(img => !removedIds.has(img.id)));
+  };
+
+  // Copies the other image's current result (or its original) so the reference outlives it.
+  const addReference = async (id: string, source: { imageId: string } | { file: File }) => {
+    try {
+      let reference: StyleReference;
+      if ('file' in source) {
+        const { dataUrl } = await preprocessImage(source.file, preprocessOptions);
+        reference = { id: `${Date.now()}-${Math.random()}`, name: source.file.name, imageUrl: toObjectUrl(dataUrl), strength: 'balanced' };
+      } else {
+        const sourceImage = images.find(img => img.id === source.imageId);
+        if (!sourceImage) return;
+        const blob = await imageUrlToBlob(sourceImage.latestProcessedImageUrl ?? sourceImage.displayOriginalImageUrl);
+        reference = { id: `${Date.now()}-${Math.random()}`, name: sourceImage.sourceName, imageUrl: URL.createObjectURL(blob), strength: 'balanced' };
+      }
+      updateImage(id, img => {
+        if (img.references.length >= MAX_REFERENCES) {
+          revokeObjectUrls([reference.imageUrl]);
+          return img;
+        }
+        return { ...img, references: [...img.references, reference] };
+      });
+    } catch (err) {
+      const error = toErrorInfo(err, 'Failed to add the style reference.');
+      updateImage(id, img => ({ ...img, error }));
+    }
+  };
+
+  const setReferences = (id: string, references: StyleReference[]) => {
+    const image = images.find(img => img.id === id);
+    if (!image) return;
+    revokeObjectUrls(image.references.filter(ref => !references.some(r => r.id === ref.id)).map(ref => ref.imageUrl));
+    updateImage(id, img => ({ ...img, references }));
+  };
+
+  const downloadImage = async (id: string) => {
+    const index = images.findIndex(img => img.id === id);
+    if (index === -1) return;
+    try {
+      await exportImage(images[index], index, exportOptions);
+    } catch (err) {
+      const error = toErrorInfo(err, 'Failed to export the image.');
+      updateImage(id, img => ({ ...img, error }));
+    }
+  };
+
+  // Downloads the given images, or every processed image, as one ZIP.
+  const downloadImages = async (ids?: string[]) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const zip = await exportImagesAsZip(images, exportOptions, ids);
+      downloadBlob(zip, `cleaned-backgrounds-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export the images.';
+      setError(message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Resolves to whether the result was copied; a failure is shown on the image.
+  const copyResult = async (id: string): Promise<boolean> => {
+    const image = images.find(img => img.id === id);
+    if (!image?.latestProcessedImageUrl) return false;
+    try {
+      await copyImageToClipboard(image.latestProcessedImageUrl);
+      return true;
+    } catch (err) {
+      const error = toErrorInfo(err, 'Failed to copy the image.');
+      updateImage(id, img => ({ ...img, error }));
+      return false;
+    }
+  };
+
+  const downloadProject = async () => {
+    setIsProjectBusy(true);
+    setError(null);
+    try {
+      const settings: ProjectSettings = {
+        batchPreset,
+        customPresets,
+        preprocess: preprocessOptions,
+        tiling: tilingOptions,
+        qualityCheck: qualityCheckOptions,
+        variants: variantOptions,
+        export: exportOptions,
+      };
+      downloadBlob(await saveProject(images, settings), buildProjectFileName());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save the project.';
+      setError(message);
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  // Replaces the whole session with the project's images and settings and resolves to the opened
+  // images, or null if the file could not be opened. Custom presets are merged in rather than
+  // replaced, so opening a colleague's project never deletes your own.
+  const loadProject = async (file: File): Promise<ImageState[] | null> => {
+    setIsProjectBusy(true);
+    setError(null);
+    try {
+      const { images: openedImages, settings } = await openProject(file);
+      processingQueue.cancelAll();
+      retryActionsRef.current.clear();
+      releaseImageUrls(images);
+      setImages(openedImages);
+      setBatchPreset(settings.batchPreset);
+      setCustomPresets(prev => [...prev.filter(p => !settings.customPresets.some(s => s.id === p.id)), ...settings.customPresets]);
+      setPreprocessOptions(settings.preprocess);
+      setTilingOptions(settings.tiling);
+      setQualityCheckOptions(settings.qualityCheck);
+      setVariantOptions(settings.variants);
+      setExportOptions(settings.export);
+      return openedImages;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to open the project.';
+      setError(`${file.name}: ${message}`);
+      return null;
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const clearImages = async () => {
+    setError(null);
+    try {
+      images.forEach(img => cancelScheduledSave(img.id));
+      if (persistWorkspace) await clearWorkspace();
+      persistedImagesRef.current.clear();
+      releaseImageUrls(images);
+      setImages([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to clear the saved workspace.';
+      setError(message);
+    }
+  };
+
+  return {
+    images,
+    error,
+    setError,
+    isBatchProcessing,
+    isRecipeRunning,
+    isExporting,
+    isProjectBusy,
+    isCleanable,
+    // Batch settings
+    batchPreset,
+    setBatchPreset,
+    customPresets,
+    setCustomPresets,
+    allPresets,
+    preprocessOptions,
+    setPreprocessOptions,
+    tilingOptions,
+    setTilingOptions,
+    qualityCheckOptions,
+    setQualityCheckOptions,
+    variantOptions,
+    setVariantOptions,
+    exportOptions,
+    setExportOptions,
+    providerSelection,
+    setProviderSelection,
+    supportsSampling,
+    // Queue
+    queueStatus,
+    concurrency,
+    setConcurrency,
+    pause: () => processingQueue.pause(),
+    resume: () => processingQueue.resume(),
+    cancel: (id: string) => processingQueue.cancel(id),
+    cancelAll: () => processingQueue.cancelAll(),
+    // Actions
+    addFiles,
+    addUrls,
+    clean,
+    cleanImages,
+    refine,
+    extendCanvas,
+    checkQuality,
+    runRecipe,
+    retry,
+    undo: (id: string) => updateImage(id, undo),
+    redo: (id: string) => updateImage(id, redo),
+    selectVersion: (id: string, versionId: string) => updateImage(id, img => selectVersion(img, versionId)),
+    setPrompt: (id: string, prompt: string) => updateImage(id, img => ({ ...img, prompt })),
+    setMask: (id: string, mask: MaskState | null) => updateImage(id, img => ({ ...img, mask })),
+    setPreset: (id: string, preset: PresetSelection | null) => updateImage(id, img => ({ ...img, preset })),
+    addReference,
+    setReferences,
+    promoteVariant,
+    discardVariants,
+    removeImages,
+    clearImages,
+    downloadImage,
+    downloadImages,
+    copyResult,
+    downloadProject,
+    loadProject,
+  };
+};
@@ -0,0 +1,20 @@
+// Public entry of the library build (`npm run build:lib`). The standalone app is built from the
+// same modules; anything not exported here is internal and may change.
+export { default as BackgroundCleanerApp } from '../App';
+export { useBackgroundCleaner } from '../hooks/useBackgroundCleaner';
+export type { BackgroundCleaner, BackgroundCleanerOptions } from '../hooks/useBackgroundCleaner';
+export { ImageProcessor } from '../components/ImageProcessor';
+export type { ImageProcessorProps } from '../components/ImageProcessor';
+export { ImageDisplay } from '../components/ImageDisplay';
+export { DEFAULT_THEME, resolveTheme } from '../components/theme';
+export type { CleanerTheme } from '../components/theme';
+export type { HistoryEntry, ImageState, ReferenceRecord, StyleReference, VariantCandidate, VariantSet } from '../types';
+
+export { getActiveSelection, listProviders, registerProvider, setActiveSelection } from '../services/imageEditProvider';
+export type { ImageEditProvider, ImageEditRequest, ImageEditResult, ProviderSelection } from '../services/imageEditProvider';
+export type { ImageErrorInfo, ImageEditErrorKind } from '../services/imageEditErrors';
+export { BUILT_IN_PRESETS } from '../utils/presets';
+export type { CleaningPreset, PresetSelection } from '../utils/presets';
+export type { RefinementRecipe } from '../utils/recipes';
+export type { OutpaintRequest } from '../services/outpainting';
+export type { ExportOptions } from '../utils/exportUtils';
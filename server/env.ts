@@ -0,0 +1,10 @@
+import { existsSync } from 'node:fs';
+
+// Loads `.env.local` the same way Vite does for the app, and maps GEMINI_API_KEY to the
+// API_KEY variable the Gemini provider reads.
+export const loadLocalEnv = (): void => {
+  if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+  }
+  process.env.API_KEY = process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+};
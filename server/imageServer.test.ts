@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createImageServer } from './imageServer';
+import { createRateLimiter } from './rateLimiter';
+import { mockProvider } from '../services/mockProvider';
+import { proxyProvider } from '../services/proxyProvider';
+import type { ImageServerOptions } from './imageServer';
+
+const PNG_BASE64 = Buffer.from('png').toString('base64');
+
+const startServer = async (options: Partial<ImageServerOptions> = {}): Promise<Server> => {
+  const server = createImageServer({
+    provider: mockProvider,
+    rateLimiter: createRateLimiter({ windowMs: 60_000, maxRequests: 100 }),
+    maxBodyBytes: 1_000_000,
+    maxFetchBytes: 1_000_000,
+    fetchTimeoutMs: 1_000,
+    allowedOrigin: null,
+    trustProxy: false,
+    ...options,
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+const urlOf = (server: Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe('image server', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = await startServer();
+    baseUrl = urlOf(server);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const editImage = (model?: string) => fetch(`${baseUrl}/api/image-edit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ image: { base64: PNG_BASE64, mimeType: 'image/png' }, prompt: 'Remove the people', model }),
+  });
+
+  it('edits with one of the provider models', async () => {
+    const response = await editImage('mock-echo');
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects models the provider does not offer', async () => {
+    const response = await editImage('gemini-ultra-expensive');
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('"model" must be one of mock-echo.');
+  });
+});
+
+describe('image server in stub mode', () => {
+  let server: Server;
+
+  beforeEach(async () => {
+    // Mirrors server/index.ts with --stub.
+    server = await startServer({ acceptedModels: [...mockProvider.models, ...proxyProvider.models] });
+    process.env.IMAGE_PROXY_URL = `${urlOf(server)}/api`;
+  });
+
+  afterEach(async () => {
+    delete process.env.IMAGE_PROXY_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('answers the proxy provider\'s Gemini requests with the mock', async () => {
+    const image = { base64: PNG_BASE64, mimeType: 'image/png' };
+    const result = await proxyProvider.editImage({ image, prompt: 'Remove the people', model: proxyProvider.defaultModel });
+
+    expect(result).toMatchObject(image);
+  });
+});
@@ -0,0 +1,258 @@
+import http from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ImageEditError, toErrorInfo } from '../services/imageEditErrors';
+import type { ImageEditErrorKind, ImageErrorInfo } from '../services/imageEditErrors';
+import { REFERENCE_STRENGTHS } from '../services/imageEditProvider';
+import type { ImageAnalysisRequest, ImageData, ImageEditProvider, ImageEditRequest, ReferenceImage, ReferenceStrength, SamplingOptions } from '../services/imageEditProvider';
+import type { RateLimiter } from './rateLimiter';
+import { fetchPublicImage, SafeFetchError } from './safeFetch';
+
+export interface ImageServerOptions {
+  provider: ImageEditProvider;
+  // Model ids clients may ask for; defaults to the provider's. Ids the provider does not know are
+  // accepted but not forwarded, so it uses its default model (used by stub mode, see index.ts).
+  acceptedModels?: string[];
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+  maxFetchBytes: number;
+  fetchTimeoutMs: number;
+  allowedOrigin: string | null;
+  trustProxy: boolean;
+}
+
+class HttpError extends Error {
+  status: number;
+  retryable: boolean;
+  // Provider failures carry their classified details through to the client unchanged.
+  details: ImageErrorInfo | null;
+
+  constructor(status: number, message: string, retryable = false, details: ImageErrorInfo | null = null) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryable = retryable;
+    this.details = details;
+  }
+}
+
+const STATUS_BY_KIND: Record<ImageEditErrorKind, number> = {
+  'auth': 502,
+  'quota': 429,
+  'safety': 422,
+  'invalid-input': 400,
+  'network': 502,
+  'timeout': 504,
+  'unavailable': 503,
+  'empty-response': 502,
+  'unknown': 502,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > maxBytes) {
+      return reject(new HttpError(413, `Request body exceeds the ${maxBytes}-byte limit.`));
+    }
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        req.destroy();
+        reject(new HttpError(413, `Request body exceeds the ${maxBytes}-byte limit.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+const parseImageData = (value: unknown, field: string): ImageData => {
+  const data = value as Partial<ImageData> | null;
+  if (!data || typeof data.base64 !== 'string' || !data.base64 || typeof data.mimeType !== 'string' || !data.mimeType.startsWith('image/')) {
+    throw new HttpError(400, `"${field}" must be an object with a base64 string and an image/* mimeType.`);
+  }
+  return { base64: data.base64, mimeType: data.mimeType };
+};
+
+const parseJsonWithPrompt = (body: Buffer): Record<string, unknown> & { prompt: string } => {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+  if (typeof json.prompt !== 'string' || !json.prompt.trim()) {
+    throw new HttpError(400, '"prompt" must be a non-empty string.');
+  }
+  return json as Record<string, unknown> & { prompt: string };
+};
+
+const parseAnalyzeRequest = (body: Buffer): ImageAnalysisRequest => {
+  const json = parseJsonWithPrompt(body);
+  return { image: parseImageData(json.image, 'image'), prompt: json.prompt };
+};
+
+const MAX_REFERENCES = 3;
+
+const parseReferences = (value: unknown): ReferenceImage[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_REFERENCES) {
+    throw new HttpError(400, `"references" must be an array of at most ${MAX_REFERENCES} items.`);
+  }
+  return value.map((item, index) => {
+    if (!REFERENCE_STRENGTHS.includes(item?.strength)) {
+      throw new HttpError(400, `"references[${index}].strength" must be one of ${REFERENCE_STRENGTHS.join(', ')}.`);
+    }
+    return { image: parseImageData(item.image, `references[${index}].image`), strength: item.strength as ReferenceStrength };
+  });
+};
+
+const parseSampling = (value: unknown): SamplingOptions | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const sampling = value as SamplingOptions;
+  if (sampling.temperature !== undefined && (typeof sampling.temperature !== 'number' || sampling.temperature < 0 || sampling.temperature > 2)) {
+    throw new HttpError(400, '"sampling.temperature" must be a number between 0 and 2.');
+  }
+  if (sampling.seed !== undefined && !Number.isInteger(sampling.seed)) {
+    throw new HttpError(400, '"sampling.seed" must be an integer.');
+  }
+  return { temperature: sampling.temperature, seed: sampling.seed };
+};
+
+// Only known models are accepted, since every request is paid for with the server's key.
+const parseEditRequest = (body: Buffer, models: string[]): ImageEditRequest => {
+  const json = parseJsonWithPrompt(body);
+  if (json.model !== undefined && (typeof json.model !== 'string' || !models.includes(json.model))) {
+    throw new HttpError(400, `"model" must be one of ${models.join(', ')}.`);
+  }
+  return {
+    image: parseImageData(json.image, 'image'),
+    mask: json.mask === undefined || json.mask === null ? undefined : parseImageData(json.mask, 'mask'),
+    references: parseReferences(json.references),
+    sampling: parseSampling(json.sampling),
+    prompt: json.prompt,
+    model: json.model as string | undefined,
+  };
+};
+
+const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Runs a provider call that is aborted if the client disconnects, mapping failures to HTTP errors.
+const callProvider = async <T>(res: ServerResponse, call: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  try {
+    return await call(controller.signal);
+  } catch (error) {
+    const details = toErrorInfo(error, 'The image model request failed.');
+    const status = error instanceof ImageEditError ? STATUS_BY_KIND[error.kind] : 502;
+    throw new HttpError(status, details.message, details.retryable, details);
+  }
+};
+
+const handleImageEdit = async (req: IncomingMessage, res: ServerResponse, options: ImageServerOptions) => {
+  const { provider, acceptedModels = provider.models } = options;
+  const request = parseEditRequest(await readBody(req, options.maxBodyBytes), acceptedModels);
+  const model = request.model && provider.models.includes(request.model) ? request.model : undefined;
+  const result = await callProvider(res, signal => provider.editImage({ ...request, model, signal }));
+  sendJson(res, 200, result);
+};
+
+const handleImageAnalyze = async (req: IncomingMessage, res: ServerResponse, options: ImageServerOptions) => {
+  const request = parseAnalyzeRequest(await readBody(req, options.maxBodyBytes));
+  const result = await callProvider(res, signal => options.provider.analyzeImage({ ...request, signal }));
+  sendJson(res, 200, result);
+};
+
+const handleFetchImage = async (url: URL, res: ServerResponse, options: ImageServerOptions) => {
+  try {
+    const { bytes, mimeType } = await fetchPublicImage(url.searchParams.get('url') ?? '', {
+      maxBytes: options.maxFetchBytes,
+      timeoutMs: options.fetchTimeoutMs,
+    });
+    res.writeHead(200, { 'Content-Type': mimeType, 'Content-Length': String(bytes.length) });
+    res.end(bytes);
+  } catch (error) {
+    if (error instanceof SafeFetchError) {
+      throw new HttpError(error.status, error.message, error.status === 504);
+    }
+    throw error;
+  }
+};
+
+export const createImageServer = (options: ImageServerOptions): http.Server => {
+  return http.createServer(async (req, res) => {
+    if (options.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (url.pathname === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, provider: options.provider.id });
+        return;
+      }
+
+      const route = url.pathname === '/api/image-edit' && req.method === 'POST' ? 'edit'
+        : url.pathname === '/api/image-analyze' && req.method === 'POST' ? 'analyze'
+        : url.pathname === '/api/fetch-image' && req.method === 'GET' ? 'fetch'
+        : null;
+      if (!route) {
+        throw new HttpError(404, 'Not found.');
+      }
+
+      const limit = options.rateLimiter.check(getClientId(req, options.trustProxy));
+      if (!limit.allowed) {
+        sendJson(res, 429, { error: 'Too many requests. Please slow down.', retryable: true }, {
+          'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+        });
+        return;
+      }
+
+      if (route === 'edit') {
+        await handleImageEdit(req, res, options);
+      } else if (route === 'analyze') {
+        await handleImageAnalyze(req, res, options);
+      } else {
+        await handleFetchImage(url, res, options);
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        const { details } = error;
+        sendJson(res, error.status, details
+          ? { error: details.message, retryable: details.retryable, kind: details.kind, category: details.category, diagnostics: details.diagnostics }
+          : { error: error.message, retryable: error.retryable });
+        return;
+      }
+      console.error('Unhandled server error:', error);
+      sendJson(res, 500, { error: 'Internal server error.', retryable: false });
+    }
+  });
+};
@@ -0,0 +1,41 @@
+import { geminiProvider } from '../services/geminiProvider';
+import { mockProvider } from '../services/mockProvider';
+import { proxyProvider } from '../services/proxyProvider';
+import { loadLocalEnv } from './env';
+import { createImageServer } from './imageServer';
+import { createRateLimiter } from './rateLimiter';
+
+// The Gemini provider reads API_KEY; the key stays in this process and is never sent to clients.
+loadLocalEnv();
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const isStubMode = process.argv.includes('--stub') || process.env.IMAGE_SERVER_STUB === '1';
+
+if (!isStubMode && !geminiProvider.isAvailable()) {
+  console.error('GEMINI_API_KEY is not set. Set it in .env.local or start the server with --stub.');
+  process.exit(1);
+}
+
+const port = numberFromEnv('PORT', 8787);
+const server = createImageServer({
+  provider: isStubMode ? mockProvider : geminiProvider,
+  // The app's proxy provider asks for Gemini models; the stub answers them with the mock.
+  acceptedModels: isStubMode ? [...mockProvider.models, ...proxyProvider.models] : undefined,
+  rateLimiter: createRateLimiter({
+    windowMs: 60_000,
+    maxRequests: numberFromEnv('RATE_LIMIT_PER_MINUTE', 30),
+  }),
+  maxBodyBytes: numberFromEnv('MAX_BODY_MB', 25) * 1024 * 1024,
+  maxFetchBytes: numberFromEnv('MAX_FETCH_MB', 20) * 1024 * 1024,
+  fetchTimeoutMs: numberFromEnv('FETCH_TIMEOUT_MS', 15_000),
+  allowedOrigin: process.env.ALLOWED_ORIGIN ?? null,
+  trustProxy: process.env.TRUST_PROXY === '1',
+});
+
+server.listen(port, () => {
+  console.log(`Image server listening on http://localhost:${port} (${isStubMode ? 'stub' : 'gemini'} mode)`);
+});
@@ -0,0 +1,45 @@
+export interface RateLimiterOptions {
+  windowMs: number;
+  maxRequests: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check: (clientId: string, now?: number) => RateLimitResult;
+}
+
+// Fixed-window limiter keyed by client id. Expired windows are swept lazily so memory stays
+// bounded by the number of clients seen within one window.
+export const createRateLimiter = ({ windowMs, maxRequests }: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    windows.forEach((window, clientId) => {
+      if (now - window.start >= windowMs) windows.delete(clientId);
+    });
+  };
+
+  return {
+    check: (clientId: string, now = Date.now()) => {
+      sweep(now);
+      let window = windows.get(clientId);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(clientId, window);
+      }
+      if (window.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.start + windowMs - now };
+      }
+      window.count++;
+      return { allowed: true, remaining: maxRequests - window.count, retryAfterMs: 0 };
+    },
+  };
+};
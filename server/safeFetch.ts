@@ -0,0 +1,123 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { sniffImageMimeType } from '../utils/imageSniffing';
+import { assertPublicHttpUrl, isPrivateAddress } from '../utils/urlSafety';
+
+export interface SafeFetchOptions {
+  maxBytes: number;
+  // Deadline for the whole fetch, redirects and body included. A host that trickles bytes keeps
+  // a socket's idle timeout from firing, so this is enforced separately.
+  timeoutMs: number;
+  maxRedirects?: number;
+}
+
+export class SafeFetchError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SafeFetchError';
+    this.status = status;
+  }
+}
+
+// Validates the addresses a host name resolves to at connection time, so DNS tricks
+// (including rebinding between a check and the request) cannot reach internal services.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      const blocked: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname}: it resolves to a private address.`);
+      blocked.code = 'EBLOCKED';
+      return callback(blocked, '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const timedOut = () => new SafeFetchError(504, 'Fetching the image timed out.');
+
+const requestOnce = (url: URL, options: SafeFetchOptions, signal: AbortSignal): Promise<{ location?: string; bytes?: Buffer }> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(timedOut());
+    // Settles first, so the errors the aborted request and response emit afterwards are ignored.
+    signal.addEventListener('abort', () => reject(timedOut()), { once: true });
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { lookup: publicOnlyLookup, timeout: options.timeoutMs, signal }, response => {
+      const status = response.statusCode ?? 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        return resolve({ location: response.headers.location });
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return reject(new SafeFetchError(502, `The image host responded with status ${status}.`));
+      }
+      if (Number(response.headers['content-length']) > options.maxBytes) {
+        response.destroy();
+        return reject(new SafeFetchError(413, `The image exceeds the ${options.maxBytes}-byte limit.`));
+      }
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > options.maxBytes) {
+          response.destroy();
+          reject(new SafeFetchError(413, `The image exceeds the ${options.maxBytes}-byte limit.`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ bytes: Buffer.concat(chunks) }));
+      response.on('error', reject);
+    });
+    request.on('timeout', () => request.destroy(timedOut()));
+    request.on('error', error => {
+      if (error instanceof SafeFetchError) return reject(error);
+      const code = (error as NodeJS.ErrnoException).code;
+      reject(code === 'EBLOCKED' ? new SafeFetchError(403, error.message) : new SafeFetchError(502, 'Fetching the image failed.'));
+    });
+  });
+};
+
+export const fetchPublicImage = async (
+  target: string,
+  options: SafeFetchOptions
+): Promise<{ bytes: Buffer; mimeType: string }> => {
+  const maxRedirects = options.maxRedirects ?? 5;
+  let url: URL;
+  try {
+    url = assertPublicHttpUrl(target);
+  } catch (error) {
+    throw new SafeFetchError(400, error instanceof Error ? error.message : 'Invalid image URL.');
+  }
+
+  const controller = new AbortController();
+  const deadline = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const { location, bytes } = await requestOnce(url, options, controller.signal);
+      if (bytes) {
+        const mimeType = sniffImageMimeType(bytes);
+        if (!mimeType) {
+          throw new SafeFetchError(415, 'The URL did not point to an image.');
+        }
+        return { bytes, mimeType };
+      }
+      if (redirects >= maxRedirects) {
+        throw new SafeFetchError(502, 'The image URL redirected too many times.');
+      }
+      try {
+        // Every hop is re-validated; the lookup hook covers host names, this covers IP literals.
+        url = assertPublicHttpUrl(new URL(location!, url).toString());
+      } catch (error) {
+        throw new SafeFetchError(403, error instanceof Error ? error.message : 'The image URL redirected to a disallowed address.');
+      }
+    }
+  } finally {
+    clearTimeout(deadline);
+  }
+};
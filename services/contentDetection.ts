@@ -0,0 +1,48 @@
+import { analyzeImageWithGemini } from './geminiService';
+import type { RequestContext } from './geminiService';
+import { imageUrlToInfo } from '../utils/fileUtils';
+
+export interface Detection {
+  label: string;
+  // Normalised to 0–1 relative to the image size.
+  box: { x: number; y: number; width: number; height: number };
+}
+
+const buildDetectionPrompt = (instruction: string): string =>
+  `An image editor is about to apply this cleaning instruction: "${instruction}"\n` +
+  `List every object, person, piece of text or watermark visible in the image that the instruction asks to remove. ` +
+  `Respond only with a JSON array. Each item must be {"label": string, "box_2d": [ymin, xmin, ymax, xmax]} ` +
+  `with coordinates normalised to 0-1000. Respond with [] if there is nothing to remove.`;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+// Parses the model's JSON answer, tolerating code fences and skipping malformed items.
+export const parseDetections = (text: string): Detection[] => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The AI model returned an unreadable detection result.");
+  }
+  const items = Array.isArray(parsed) ? parsed : [];
+  return items.flatMap((item): Detection[] => {
+    const box = item?.box_2d;
+    if (!Array.isArray(box) || box.length !== 4 || !box.every((n: unknown) => typeof n === 'number')) return [];
+    const [ymin, xmin, ymax, xmax] = box.map((n: number) => clamp01(n / 1000));
+    if (xmax <= xmin || ymax <= ymin) return [];
+    return [{
+      label: typeof item.label === 'string' ? item.label : 'object',
+      box: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+    }];
+  });
+};
+
+export const detectRemovableContent = async (
+  imageUrl: string,
+  instruction: string,
+  context: RequestContext = {}
+): Promise<Detection[]> => {
+  const { text } = await analyzeImageWithGemini(await imageUrlToInfo(imageUrl), buildDetectionPrompt(instruction), context);
+  return parseDetections(text);
+};
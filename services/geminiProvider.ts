@@ -0,0 +1,251 @@
+import type { GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import {
+  AuthError,
+  EmptyResponseError,
+  ImageEditError,
+  InvalidInputError,
+  NetworkError,
+  QuotaError,
+  SafetyBlockError,
+  ServiceUnavailableError,
+  TimeoutError,
+} from './imageEditErrors';
+import type { ErrorDiagnostics } from './imageEditErrors';
+import type { ImageAnalysisRequest, ImageAnalysisResult, ImageEditProvider, ImageEditRequest, ImageEditResult, ReferenceImage, ReferenceStrength, TokenUsage } from './imageEditProvider';
+
+// Read lazily so the server can configure the key after this module has been imported.
+const getApiKey = (): string | undefined => process.env.API_KEY;
+
+type GenAIModule = typeof import("@google/genai");
+
+// The SDK is loaded on first use, like the HEIC and TIFF decoders, so hosts that only use other
+// providers do not have to install it.
+let genai: GenAIModule | null = null;
+let client: GoogleGenAI | null = null;
+
+const loadGenAI = async (): Promise<GenAIModule> => (genai ??= await import("@google/genai"));
+
+const getClient = async (): Promise<GoogleGenAI> => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new AuthError("No API key is configured. Set GEMINI_API_KEY in .env.local.");
+  }
+  if (!client) {
+    const { GoogleGenAI } = await loadGenAI();
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+};
+
+const REQUEST_TIMEOUT_MS = 120_000;
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined => {
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+const responseDiagnostics = (response: GenerateContentResponse, model: string): ErrorDiagnostics => {
+  const candidate = response.candidates?.[0];
+  const text = candidate?.content?.parts?.map(part => part.text).filter(Boolean).join('\n');
+  return {
+    provider: 'gemini',
+    model,
+    responseId: response.responseId,
+    modelVersion: response.modelVersion,
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    safetyRatings: candidate?.safetyRatings,
+    promptFeedback: response.promptFeedback,
+    usageMetadata: response.usageMetadata,
+    usage: toTokenUsage(response.usageMetadata),
+    text: text || undefined,
+  };
+};
+
+// Turns a blocked prompt or a safety finish reason into a SafetyBlockError naming the category.
+// RECITATION is not a safety block: the model declined to reproduce existing content, which a
+// different prompt can avoid.
+const assertNotBlocked = (response: GenerateContentResponse, model: string): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const category = response.promptFeedback?.safetyRatings?.find(rating => rating.blocked)?.category ?? blockReason;
+    throw new SafetyBlockError(`The request was blocked by the model's safety filters (${category}).`, category, responseDiagnostics(response, model));
+  }
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (finishReason === 'RECITATION') {
+    throw new InvalidInputError("The AI model refused to reproduce existing content. Try a different prompt.", responseDiagnostics(response, model));
+  }
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+    const category = candidate?.safetyRatings?.find(rating => rating.blocked)?.category ?? finishReason;
+    throw new SafetyBlockError(`The result was blocked by the model's safety filters (${category}).`, category, responseDiagnostics(response, model));
+  }
+};
+
+const classifyError = (error: unknown, model: string, timedOut: boolean): ImageEditError => {
+  if (error instanceof ImageEditError) {
+    return error;
+  }
+  const diagnostics: ErrorDiagnostics = {
+    provider: 'gemini',
+    model,
+    errorName: error instanceof Error ? error.name : typeof error,
+    rawMessage: error instanceof Error ? error.message : String(error),
+  };
+  if (timedOut) {
+    return new TimeoutError(`The AI model did not respond within ${REQUEST_TIMEOUT_MS / 1000} seconds.`, diagnostics);
+  }
+  if (genai && error instanceof genai.ApiError) {
+    const { status } = error;
+    diagnostics.status = status;
+    if (status === 401 || status === 403 || (status === 400 && /api[_ ]?key/i.test(error.message))) {
+      return new AuthError("The API key was rejected. Check that it is valid and has access to the image model.", diagnostics);
+    }
+    if (status === 429) {
+      return new QuotaError("The API quota or rate limit has been reached. Wait a moment before trying again.", diagnostics);
+    }
+    if (status === 408 || status === 504) {
+      return new TimeoutError("The AI model took too long to respond.", diagnostics);
+    }
+    if (status >= 500) {
+      return new ServiceUnavailableError(`The AI model is temporarily unavailable (status ${status}).`, diagnostics);
+    }
+    if (status >= 400) {
+      return new InvalidInputError("The AI model rejected the image or prompt as invalid.", diagnostics);
+    }
+  }
+  if (error instanceof TypeError) {
+    return new NetworkError("A network error occurred while contacting the AI model.", diagnostics);
+  }
+  return new ImageEditError("Failed to process image with the AI model.", 'unknown', { diagnostics });
+};
+
+// Runs a model call with a request timeout, classifying every failure into a typed ImageEditError.
+// Cancellation by the caller is rethrown untouched.
+const callModel = async <T>(model: string, signal: AbortSignal | undefined, call: (abortSignal: AbortSignal) => Promise<T>): Promise<T> => {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  try {
+    return await call(signal ? AbortSignal.any([signal, timeout]) : timeout);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error("Error calling Gemini API:", error);
+    throw classifyError(error, model, timeout.aborted);
+  }
+};
+
+const buildMaskedPrompt = (prompt: string): string =>
+  `The first image is the photo to edit. The second image is a black-and-white mask of the same size. ` +
+  `Only change the pixels covered by the white area of the mask; everything in the black area must stay exactly as it is. ` +
+  `Instruction for the masked area: ${prompt}`;
+
+const REFERENCE_HINTS: Record<ReferenceStrength, string> = {
+  subtle: 'take only loose inspiration from its mood and colours',
+  balanced: 'match its lighting, colour palette and materials',
+  strong: 'closely match its lighting, colour palette, materials and textures',
+};
+
+// References follow the photo (and mask) in the request, numbered from 1 in that order.
+const buildReferencePrompt = (prompt: string, references: ReferenceImage[]): string => {
+  const hints = references.map((reference, index) => `For reference ${index + 1}, ${REFERENCE_HINTS[reference.strength]}.`);
+  return `The last ${references.length === 1 ? 'image is a style reference' : `${references.length} images are style references`}, ` +
+    `numbered from 1. Use them only as a guide to the look of the result; never copy their content into it. ${hints.join(' ')}\n${prompt}`;
+};
+
+const editImage = async ({ image, prompt, mask, references = [], sampling, model, signal }: ImageEditRequest): Promise<ImageEditResult> => {
+  const modelId = model ?? geminiProvider.defaultModel;
+  return callModel(modelId, signal, async (abortSignal) => {
+    const ai = await getClient();
+    const { Modality } = await loadGenAI();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: image.base64,
+              mimeType: image.mimeType,
+            },
+          },
+          ...(mask ? [{ inlineData: { data: mask.base64, mimeType: mask.mimeType } }] : []),
+          ...references.map(reference => ({ inlineData: { data: reference.image.base64, mimeType: reference.image.mimeType } })),
+          {
+            text: references.length > 0
+              ? buildReferencePrompt(mask ? buildMaskedPrompt(prompt) : prompt, references)
+              : mask ? buildMaskedPrompt(prompt) : prompt,
+          },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        temperature: sampling?.temperature,
+        seed: sampling?.seed,
+        abortSignal,
+      },
+    });
+
+    assertNotBlocked(response, modelId);
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+    if (!imagePart?.inlineData?.data) {
+      const finishReason = response.candidates?.[0]?.finishReason;
+      const message = finishReason && finishReason !== 'STOP'
+        ? `The AI model stopped without returning an image (${finishReason}).`
+        : "The AI model responded without an image.";
+      throw new EmptyResponseError(message, responseDiagnostics(response, modelId));
+    }
+    return {
+      base64: imagePart.inlineData.data,
+      mimeType: imagePart.inlineData.mimeType ?? 'image/png',
+      usage: toTokenUsage(response.usageMetadata),
+    };
+  });
+};
+
+const analyzeImage = async ({ image, prompt, signal }: ImageAnalysisRequest): Promise<ImageAnalysisResult> => {
+  return callModel(ANALYSIS_MODEL, signal, async (abortSignal) => {
+    const ai = await getClient();
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: image.base64, mimeType: image.mimeType } },
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        abortSignal,
+      },
+    });
+    assertNotBlocked(response, ANALYSIS_MODEL);
+    if (!response.text) {
+      throw new EmptyResponseError("The AI model returned no analysis.", responseDiagnostics(response, ANALYSIS_MODEL));
+    }
+    return { text: response.text, usage: toTokenUsage(response.usageMetadata) };
+  });
+};
+
+export const geminiProvider: ImageEditProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  defaultModel: 'gemini-2.5-flash-image',
+  analysisModel: ANALYSIS_MODEL,
+  supportsSampling: true,
+  isAvailable: () => Boolean(getApiKey()),
+  editImage,
+  analyzeImage,
+};
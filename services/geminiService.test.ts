@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, generateContent, imageResponse, RESULT_BASE64, textOnlyResponse } from '../test/fakeGenAI';
+import { processImageWithGemini } from './geminiService';
+import { setActiveSelection } from './imageEditProvider';
+import { AuthError, EmptyResponseError, InvalidInputError, QuotaError, SafetyBlockError } from './imageEditErrors';
+import { clearUsageRecords, getUsageRecords } from './usageTracker';
+
+vi.mock('@google/genai', () => import('../test/fakeGenAI'));
+
+const SOURCE_BASE64 = btoa('source image');
+
+describe('processImageWithGemini', () => {
+  beforeEach(() => {
+    process.env.API_KEY = 'test-key';
+    generateContent.mockReset();
+    setActiveSelection({ providerId: 'gemini', model: 'gemini-2.5-flash-image' });
+    clearUsageRecords();
+    // Failed calls are logged by the provider; keep the test output readable.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('returns the inline image and token usage', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+
+    const result = await processImageWithGemini(SOURCE_BASE64, 'image/jpeg', 'Remove the people', { imageId: 'img-1' });
+
+    expect(result).toEqual({
+      base64: RESULT_BASE64,
+      mimeType: 'image/png',
+      usage: { promptTokens: 1290, outputTokens: 1290, totalTokens: 2580 },
+    });
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe('gemini-2.5-flash-image');
+    expect(request.contents.parts).toEqual([
+      { inlineData: { data: SOURCE_BASE64, mimeType: 'image/jpeg' } },
+      { text: 'Remove the people' },
+    ]);
+    expect(getUsageRecords()).toMatchObject([{ kind: 'edit', outcome: 'success', imageId: 'img-1', totalTokens: 2580 }]);
+  });
+
+  it('sends the mask as a second image with a masked-edit prompt', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+
+    await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Remove the sign', { mask: { base64: 'bWFzaw==', mimeType: 'image/png' } });
+
+    const { parts } = generateContent.mock.calls[0][0].contents;
+    expect(parts[1]).toEqual({ inlineData: { data: 'bWFzaw==', mimeType: 'image/png' } });
+    expect(parts[2].text).toContain('Instruction for the masked area: Remove the sign');
+  });
+
+  it('appends style references after the photo with a numbered strength hint for each', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse());
+
+    await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Relight like reference 1', {
+      references: [
+        { image: { base64: 'cmVmMQ==', mimeType: 'image/jpeg' }, strength: 'strong' },
+        { image: { base64: 'cmVmMg==', mimeType: 'image/png' }, strength: 'subtle' },
+      ],
+    });
+
+    const { parts } = generateContent.mock.calls[0][0].contents;
+    expect(parts.slice(1, 3)).toEqual([
+      { inlineData: { data: 'cmVmMQ==', mimeType: 'image/jpeg' } },
+      { inlineData: { data: 'cmVmMg==', mimeType: 'image/png' } },
+    ]);
+    expect(parts[3].text).toMatch(/^The last 2 images are style references/);
+    expect(parts[3].text).toContain('For reference 1, closely match');
+    expect(parts[3].text).toContain('For reference 2, take only loose inspiration');
+    expect(parts[3].text).toMatch(/\nRelight like reference 1$/);
+  });
+
+  it('defaults the result type to PNG when the response omits it', async () => {
+    generateContent.mockResolvedValueOnce(imageResponse({
+      candidates: [{ content: { parts: [{ inlineData: { data: RESULT_BASE64 } }] }, finishReason: 'STOP' }],
+    }));
+
+    const result = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean');
+
+    expect(result.mimeType).toBe('image/png');
+  });
+
+  it('raises a SafetyBlockError for a safety finish reason, naming the blocked category', async () => {
+    generateContent.mockResolvedValueOnce({
+      candidates: [{
+        finishReason: 'IMAGE_SAFETY',
+        safetyRatings: [{ category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', blocked: true }],
+      }],
+      usageMetadata: { promptTokenCount: 1290, totalTokenCount: 1290 },
+    });
+
+    const error = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean').catch(e => e);
+
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(error.category).toBe('HARM_CATEGORY_SEXUALLY_EXPLICIT');
+    expect(error.retryable).toBe(false);
+    expect(error.diagnostics.finishReason).toBe('IMAGE_SAFETY');
+    // Blocked requests still cost their prompt tokens.
+    expect(getUsageRecords()).toMatchObject([{ outcome: 'error', errorKind: 'safety', promptTokens: 1290 }]);
+  });
+
+  it('falls back to the finish reason when no rating is marked as blocked', async () => {
+    generateContent.mockResolvedValueOnce({ candidates: [{ finishReason: 'PROHIBITED_CONTENT' }] });
+
+    const error = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean').catch(e => e);
+
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(error.category).toBe('PROHIBITED_CONTENT');
+  });
+
+  it('reports a recitation stop as a rejected prompt, not a safety block', async () => {
+    generateContent.mockResolvedValueOnce({ candidates: [{ finishReason: 'RECITATION' }] });
+
+    const error = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean').catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error.message).toBe('The AI model refused to reproduce existing content. Try a different prompt.');
+    expect(error.retryable).toBe(false);
+    expect(error.diagnostics.finishReason).toBe('RECITATION');
+  });
+
+  it('raises a SafetyBlockError when the prompt itself is blocked', async () => {
+    generateContent.mockResolvedValueOnce({ promptFeedback: { blockReason: 'OTHER' } });
+
+    await expect(processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean')).rejects.toThrow(/blocked by the model's safety filters \(OTHER\)/);
+  });
+
+  it('raises an EmptyResponseError with the model text when inlineData is missing', async () => {
+    generateContent.mockResolvedValueOnce(textOnlyResponse('I cannot edit this image.'));
+
+    const error = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean').catch(e => e);
+
+    expect(error).toBeInstanceOf(EmptyResponseError);
+    expect(error.message).toBe('The AI model responded without an image.');
+    expect(error.retryable).toBe(true);
+    expect(error.diagnostics.text).toBe('I cannot edit this image.');
+  });
+
+  it('names a non-STOP finish reason when no image is returned', async () => {
+    generateContent.mockResolvedValueOnce(textOnlyResponse('', 'MAX_TOKENS'));
+
+    await expect(processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean')).rejects.toThrow('The AI model stopped without returning an image (MAX_TOKENS).');
+  });
+
+  it('treats a response without candidates as empty', async () => {
+    generateContent.mockResolvedValueOnce({});
+
+    await expect(processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean')).rejects.toBeInstanceOf(EmptyResponseError);
+  });
+
+  it('classifies API errors by status', async () => {
+    generateContent.mockRejectedValueOnce(new ApiError({ message: 'Resource exhausted', status: 429 }));
+
+    const error = await processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean').catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.diagnostics).toMatchObject({ status: 429, rawMessage: 'Resource exhausted' });
+  });
+
+  it('fails with an AuthError before calling the model when no key is configured', async () => {
+    delete process.env.API_KEY;
+
+    await expect(processImageWithGemini(SOURCE_BASE64, 'image/png', 'Clean')).rejects.toBeInstanceOf(AuthError);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
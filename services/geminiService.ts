@@ -1,58 +1,115 @@
+import { getActiveProvider, getActiveSelection } from './imageEditProvider';
+import type { ImageAnalysisResult, ImageData, ImageEditResult, ReferenceImage, ReferenceStrength, SamplingOptions, TokenUsage } from './imageEditProvider';
+import { ImageEditError } from './imageEditErrors';
+import { recordUsage } from './usageTracker';
+import type { UsageRequestKind } from './usageTracker';
+import { imageUrlToInfo } from '../utils/fileUtils';
+import { compositeMaskedEdit, loadImage, maskToModelImage } from '../utils/maskUtils';
+import type { MaskState } from '../utils/maskUtils';
 
-import { GoogleGenAI, Modality } from "@google/genai";
+// Per-request context: cancellation, and the image the request is made for (used in the usage log).
+export interface RequestContext {
+  signal?: AbortSignal;
+  imageId?: string;
+}
 
-const API_KEY = process.env.API_KEY;
+export interface ProcessImageOptions extends RequestContext {
+  mask?: ImageData;
+  references?: ReferenceImage[];
+  sampling?: SamplingOptions;
+}
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+// A style reference as the app holds it, by URL; read into image data for each request.
+export interface ReferenceSource {
+  imageUrl: string;
+  strength: ReferenceStrength;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export interface ImageUrlEditOptions extends RequestContext {
+  references?: ReferenceSource[];
+  sampling?: SamplingOptions;
+}
+
+// Times a provider call and records its outcome and token usage, whether it succeeds or not.
+const trackUsage = async <T extends { usage?: TokenUsage }>(
+  kind: UsageRequestKind,
+  model: string,
+  context: RequestContext,
+  call: () => Promise<T>
+): Promise<T> => {
+  const startedAt = performance.now();
+  const entry = {
+    kind,
+    model,
+    providerId: getActiveSelection().providerId,
+    imageId: context.imageId ?? null,
+  };
+  try {
+    const result = await call();
+    recordUsage({ ...entry, outcome: 'success', latencyMs: performance.now() - startedAt, usage: result.usage });
+    return result;
+  } catch (error) {
+    recordUsage({
+      ...entry,
+      outcome: context.signal?.aborted ? 'cancelled' : 'error',
+      errorKind: error instanceof ImageEditError ? error.kind : undefined,
+      latencyMs: performance.now() - startedAt,
+      // Blocked responses are still billed for their prompt tokens.
+      usage: error instanceof ImageEditError ? error.diagnostics.usage as TokenUsage | undefined : undefined,
+    });
+    throw error;
+  }
+};
 
 export const processImageWithGemini = async (
   base64Image: string,
   mimeType: string,
-  prompt: string
-): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
+  prompt: string,
+  options: ProcessImageOptions = {}
+): Promise<ImageEditResult> => {
+  const provider = getActiveProvider();
+  const model = getActiveSelection().model;
+  return trackUsage('edit', model, options, () => provider.editImage({
+    image: { base64: base64Image, mimeType },
+    prompt,
+    mask: options.mask,
+    references: options.references,
+    sampling: options.sampling,
+    model,
+    signal: options.signal,
+  }));
+};
 
-    // Find the image part in the response
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePart && imagePart.inlineData) {
-      return imagePart.inlineData.data;
-    } else {
-      // Check for safety ratings or other reasons for no image output
-      const safetyReason = response.candidates?.[0]?.finishReason;
-      if (safetyReason && safetyReason !== 'STOP') {
-        throw new Error(`Image generation failed due to safety reasons: ${safetyReason}`);
-      }
-      throw new Error("No image data found in the Gemini API response.");
-    }
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if(error instanceof Error && error.message.includes('API_KEY')) {
-         throw new Error('Failed to process image. Please ensure your API key is valid.');
-    }
-    throw new Error("Failed to process image with the AI model.");
+// Asks the provider's text model a question about an image, e.g. what there is left to remove.
+export const analyzeImageWithGemini = async (
+  image: ImageData,
+  prompt: string,
+  context: RequestContext = {}
+): Promise<ImageAnalysisResult> => {
+  const provider = getActiveProvider();
+  return trackUsage('analyze', provider.analysisModel, context, () => provider.analyzeImage({ image, prompt, signal: context.signal }));
+};
+
+// Edits the image behind `imageUrl` and returns the result as a data URL. With a mask, only the
+// masked region is sent for editing and the untouched pixels are composited back afterwards.
+export const processImageUrl = async (
+  imageUrl: string,
+  prompt: string,
+  mask: MaskState | null,
+  { references: referenceSources = [], ...context }: ImageUrlEditOptions = {}
+): Promise<string> => {
+  const { base64, mimeType } = await imageUrlToInfo(imageUrl);
+  const references = await Promise.all(referenceSources.map(async ({ imageUrl: referenceUrl, strength }) => ({
+    image: await imageUrlToInfo(referenceUrl),
+    strength,
+  })));
+  if (!mask) {
+    const result = await processImageWithGemini(base64, mimeType, prompt, { ...context, references });
+    return `data:${result.mimeType};base64,${result.base64}`;
   }
+
+  const source = await loadImage(imageUrl);
+  const maskImage = await maskToModelImage(mask, source.naturalWidth, source.naturalHeight);
+  const result = await processImageWithGemini(base64, mimeType, prompt, { ...context, mask: maskImage, references });
+  return compositeMaskedEdit(imageUrl, `data:${result.mimeType};base64,${result.base64}`, mask);
 };
@@ -0,0 +1,161 @@
+export type ImageEditErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalid-input'
+  | 'network'
+  | 'timeout'
+  | 'unavailable'
+  | 'empty-response'
+  | 'unknown';
+
+export const IMAGE_EDIT_ERROR_KINDS: ImageEditErrorKind[] = [
+  'auth', 'quota', 'safety', 'invalid-input', 'network', 'timeout', 'unavailable', 'empty-response', 'unknown',
+];
+
+// Raw response metadata kept for support: status codes, finish reasons, safety ratings, usage, etc.
+export type ErrorDiagnostics = Record<string, unknown>;
+
+interface ImageEditErrorOptions {
+  retryable?: boolean;
+  diagnostics?: ErrorDiagnostics;
+}
+
+// Raised by providers for failures that callers may want to handle differently. The subclasses
+// below name each kind of failure; `retryable` says whether trying the same request again can help.
+export class ImageEditError extends Error {
+  kind: ImageEditErrorKind;
+  retryable: boolean;
+  diagnostics: ErrorDiagnostics;
+
+  constructor(message: string, kind: ImageEditErrorKind = 'unknown', options: ImageEditErrorOptions = {}) {
+    super(message);
+    this.name = 'ImageEditError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.diagnostics = options.diagnostics ?? {};
+  }
+}
+
+export class AuthError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'auth', { diagnostics });
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'quota', { retryable: true, diagnostics });
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends ImageEditError {
+  // Harm category or block reason reported by the model, e.g. "HARM_CATEGORY_DANGEROUS_CONTENT".
+  category: string;
+
+  constructor(message: string, category: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'safety', { diagnostics });
+    this.name = 'SafetyBlockError';
+    this.category = category;
+  }
+}
+
+export class InvalidInputError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'invalid-input', { diagnostics });
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class NetworkError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'network', { retryable: true, diagnostics });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'timeout', { retryable: true, diagnostics });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ServiceUnavailableError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    super(message, 'unavailable', { retryable: true, diagnostics });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class EmptyResponseError extends ImageEditError {
+  constructor(message: string, diagnostics?: ErrorDiagnostics) {
+    // The model occasionally answers with text only; a second attempt usually returns an image.
+    super(message, 'empty-response', { retryable: true, diagnostics });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ImageEditError && error.retryable;
+
+// Plain-object form of an error, used in ImageState, the saved workspace and server responses.
+export interface ImageErrorInfo {
+  kind: ImageEditErrorKind;
+  message: string;
+  retryable: boolean;
+  category?: string;
+  diagnostics: ErrorDiagnostics;
+}
+
+export const toErrorInfo = (error: unknown, fallbackMessage: string): ImageErrorInfo => {
+  if (error instanceof ImageEditError) {
+    return {
+      kind: error.kind,
+      message: error.message,
+      retryable: error.retryable,
+      category: error instanceof SafetyBlockError ? error.category : undefined,
+      diagnostics: error.diagnostics,
+    };
+  }
+  return {
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : fallbackMessage,
+    retryable: false,
+    diagnostics: error instanceof Error ? { errorName: error.name } : {},
+  };
+};
+
+// Rebuilds the typed error from its plain-object form, e.g. after it crossed the image server.
+export const fromErrorInfo = (info: ImageErrorInfo): ImageEditError => {
+  switch (info.kind) {
+    case 'auth': return new AuthError(info.message, info.diagnostics);
+    case 'quota': return new QuotaError(info.message, info.diagnostics);
+    case 'safety': return new SafetyBlockError(info.message, info.category ?? 'UNKNOWN', info.diagnostics);
+    case 'invalid-input': return new InvalidInputError(info.message, info.diagnostics);
+    case 'network': return new NetworkError(info.message, info.diagnostics);
+    case 'timeout': return new TimeoutError(info.message, info.diagnostics);
+    case 'unavailable': return new ServiceUnavailableError(info.message, info.diagnostics);
+    case 'empty-response': return new EmptyResponseError(info.message, info.diagnostics);
+    default: return new ImageEditError(info.message, 'unknown', { retryable: info.retryable, diagnostics: info.diagnostics });
+  }
+};
+
+const ERROR_KIND_TITLES: Record<ImageEditErrorKind, string> = {
+  'auth': 'API key rejected',
+  'quota': 'Quota or rate limit reached',
+  'safety': 'Blocked by safety filters',
+  'invalid-input': 'Request rejected as invalid',
+  'network': 'Network error',
+  'timeout': 'Request timed out',
+  'unavailable': 'Model temporarily unavailable',
+  'empty-response': 'No image returned',
+  'unknown': 'Processing failed',
+};
+
+export const getErrorTitle = (info: ImageErrorInfo): string =>
+  info.kind === 'safety' && info.category
+    ? `${ERROR_KIND_TITLES.safety} (${info.category})`
+    : ERROR_KIND_TITLES[info.kind];
@@ -0,0 +1,148 @@
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { proxyProvider } from './proxyProvider';
+
+export interface ImageData {
+  base64: string;
+  mimeType: string;
+}
+
+// How closely the result should follow a style reference.
+export type ReferenceStrength = 'subtle' | 'balanced' | 'strong';
+
+export const REFERENCE_STRENGTHS: ReferenceStrength[] = ['subtle', 'balanced', 'strong'];
+
+// An extra image whose lighting, palette or materials the edit should match. Prompts can refer
+// to references by position, e.g. "match the lighting of reference 1".
+export interface ReferenceImage {
+  image: ImageData;
+  strength: ReferenceStrength;
+}
+
+// Sampling controls for providers that support them (see ImageEditProvider.supportsSampling).
+// Unset fields use the model's defaults; the same seed and prompt give a repeatable result.
+export interface SamplingOptions {
+  temperature?: number;
+  seed?: number;
+}
+
+export interface ImageEditRequest {
+  image: ImageData;
+  prompt: string;
+  // Black-and-white image of the same size as `image`; white marks the only area the model may change.
+  mask?: ImageData;
+  references?: ReferenceImage[];
+  sampling?: SamplingOptions;
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageEditResult {
+  base64: string;
+  mimeType: string;
+  // Reported by providers that bill per token; absent for the mock.
+  usage?: TokenUsage;
+}
+
+// A text-only question about an image, answered by the provider's analysis (non-image) model.
+export interface ImageAnalysisRequest {
+  image: ImageData;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageAnalysisResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ImageEditProvider {
+  id: string;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  // Text model used by analyzeImage.
+  analysisModel: string;
+  // Whether editImage honours `sampling`; others ignore it.
+  supportsSampling: boolean;
+  isAvailable: () => boolean;
+  editImage: (request: ImageEditRequest) => Promise<ImageEditResult>;
+  analyzeImage: (request: ImageAnalysisRequest) => Promise<ImageAnalysisResult>;
+}
+
+export interface ProviderSelection {
+  providerId: string;
+  model: string;
+}
+
+const STORAGE_KEY = 'abp.providerSelection';
+
+const providers = new Map<string, ImageEditProvider>();
+let activeSelection: ProviderSelection | null = null;
+
+export const registerProvider = (provider: ImageEditProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageEditProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): ImageEditProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  return provider;
+};
+
+const readStoredSelection = (): ProviderSelection | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as ProviderSelection : null;
+  } catch {
+    return null;
+  }
+};
+
+const defaultSelection = (): ProviderSelection => {
+  const preferred = process.env.IMAGE_PROVIDER;
+  const provider = (preferred && providers.get(preferred))
+    || listProviders().find(p => p.isAvailable())
+    || listProviders()[0];
+  if (!provider) {
+    throw new Error('No image providers have been registered.');
+  }
+  return { providerId: provider.id, model: provider.defaultModel };
+};
+
+export const getActiveSelection = (): ProviderSelection => {
+  if (!activeSelection) {
+    const stored = readStoredSelection();
+    activeSelection = stored && providers.has(stored.providerId) ? stored : defaultSelection();
+  }
+  return activeSelection;
+};
+
+export const setActiveSelection = (selection: ProviderSelection): void => {
+  const provider = getProvider(selection.providerId);
+  activeSelection = {
+    providerId: provider.id,
+    model: provider.models.includes(selection.model) ? selection.model : provider.defaultModel,
+  };
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(activeSelection));
+  }
+};
+
+export const getActiveProvider = (): ImageEditProvider => getProvider(getActiveSelection().providerId);
+
+// Registration order sets the default: the server proxy wins when configured, so the key stays off the client.
+registerProvider(proxyProvider);
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,53 @@
+import type { ImageAnalysisRequest, ImageAnalysisResult, ImageEditProvider, ImageEditRequest, ImageEditResult } from './imageEditProvider';
+
+const MOCK_LATENCY_MS = 400;
+
+const simulateLatency = (signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, MOCK_LATENCY_MS);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('The mock request was aborted.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Returns the input image unchanged after a fixed delay, so the cleaning and
+// refinement flows can be exercised offline and produce repeatable results.
+const editImage = async ({ image, prompt, signal }: ImageEditRequest): Promise<ImageEditResult> => {
+  await simulateLatency(signal);
+  if (!prompt.trim()) {
+    throw new Error('The mock provider requires a non-empty prompt.');
+  }
+  return { base64: image.base64, mimeType: image.mimeType };
+};
+
+let scriptedAnalyses: string[] = [];
+
+// Queues answers for the next analyzeImage calls, so detection and quality-check flows can be
+// exercised offline, e.g. one leftover followed by a clean result.
+export const setMockAnalysisResponses = (responses: string[]): void => {
+  scriptedAnalyses = [...responses];
+};
+
+// Returns the next scripted answer, or an empty JSON list ("nothing found") once they run out.
+const analyzeImage = async ({ signal }: ImageAnalysisRequest): Promise<ImageAnalysisResult> => {
+  await simulateLatency(signal);
+  return { text: scriptedAnalyses.shift() ?? '[]' };
+};
+
+export const mockProvider: ImageEditProvider = {
+  id: 'mock',
+  label: 'Local mock (offline)',
+  models: ['mock-echo'],
+  defaultModel: 'mock-echo',
+  analysisModel: 'mock-echo',
+  supportsSampling: false,
+  isAvailable: () => true,
+  editImage,
+  analyzeImage,
+};
@@ -0,0 +1,36 @@
+import { processImageUrl } from './geminiService';
+import type { RequestContext } from './geminiService';
+import { InvalidInputError } from './imageEditErrors';
+import { loadImage } from '../utils/maskUtils';
+import { buildExtendedCanvas, compositeOriginalContent, describeCanvasTarget, isCanvasUnchanged, planCanvasExtension } from '../utils/outpainting';
+import type { CanvasAnchor, CanvasTarget } from '../utils/outpainting';
+
+export interface OutpaintRequest {
+  target: CanvasTarget;
+  anchor: CanvasAnchor;
+  // Optional guidance for what the new areas should contain, e.g. "more sky".
+  instruction: string;
+}
+
+const buildOutpaintPrompt = (instruction: string): string =>
+  `Extend the scene into the masked border areas so the picture continues naturally beyond its original frame. ` +
+  `Match the perspective, lighting, colours, textures and grain of the existing image exactly and make the transition invisible. ` +
+  `Do not add people, text, logos or watermarks.` +
+  (instruction.trim() ? ` Additional guidance: ${instruction.trim()}` : '');
+
+export const describeOutpaintRequest = (request: OutpaintRequest): string =>
+  `Extend canvas to ${describeCanvasTarget(request.target)} (${request.anchor})` +
+  (request.instruction.trim() ? `: ${request.instruction.trim()}` : '');
+
+// Pads the image to the target shape, has the model fill only the new regions, then puts the
+// original pixels back on top so the existing content is never altered.
+export const outpaintImage = async (imageUrl: string, request: OutpaintRequest, context: RequestContext = {}): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const plan = planCanvasExtension({ width: image.naturalWidth, height: image.naturalHeight }, request.target, request.anchor);
+  if (isCanvasUnchanged(plan)) {
+    throw new InvalidInputError(`The image already has the ${describeCanvasTarget(request.target)} shape; there is nothing to extend.`);
+  }
+  const { paddedUrl, mask } = await buildExtendedCanvas(imageUrl, plan);
+  const extendedUrl = await processImageUrl(paddedUrl, buildOutpaintPrompt(request.instruction), mask, context);
+  return compositeOriginalContent(extendedUrl, imageUrl, plan);
+};
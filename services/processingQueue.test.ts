@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProcessingQueue, JobCancelledError } from './processingQueue';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+const deferred = <T>(): Deferred<T> => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Lets the queue's promise chains run after a job settles.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createProcessingQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most `concurrency` jobs at once and starts the next as one finishes', async () => {
+    const queue = createProcessingQueue({ concurrency: 2 });
+    const jobs = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+    const results = jobs.map((job, index) => queue.enqueue(`img-${index}`, async () => {
+      started.push(index);
+      return job.promise;
+    }));
+
+    expect(started).toEqual([0, 1]);
+    expect(queue.getStatus()).toEqual({ pending: 1, running: 2, paused: false });
+
+    jobs[1].resolve('b');
+    await expect(results[1]).resolves.toBe('b');
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    jobs[0].resolve('a');
+    jobs[2].resolve('c');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+    expect(queue.getStatus()).toEqual({ pending: 0, running: 0, paused: false });
+  });
+
+  it('retries retryable failures with exponential backoff and gives up after maxRetries', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const queue = createProcessingQueue({ baseDelayMs: 100, maxDelayMs: 1000, maxRetries: 2, isRetryable: () => true });
+    const run = vi.fn().mockRejectedValue(new Error('busy'));
+    const result = queue.enqueue('img-1', run);
+    const settled = expect(result).rejects.toThrow('busy');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    // With no jitter the delays are half of 100 ms, then half of 200 ms.
+    await vi.advanceTimersByTimeAsync(49);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(run).toHaveBeenCalledTimes(3);
+    await settled;
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const queue = createProcessingQueue({ isRetryable: () => false });
+    const run = vi.fn().mockRejectedValue(new Error('bad input'));
+
+    await expect(queue.enqueue('img-1', run)).rejects.toThrow('bad input');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts no new jobs while paused and lets running ones finish', async () => {
+    const queue = createProcessingQueue({ concurrency: 1 });
+    const first = deferred<string>();
+    const second = vi.fn(async () => 'second');
+    const firstResult = queue.enqueue('img-1', () => first.promise);
+    queue.pause();
+    const secondResult = queue.enqueue('img-2', second);
+
+    first.resolve('first');
+    await expect(firstResult).resolves.toBe('first');
+    await flush();
+    expect(second).not.toHaveBeenCalled();
+    expect(queue.getStatus()).toEqual({ pending: 1, running: 0, paused: true });
+
+    queue.resume();
+    await expect(secondResult).resolves.toBe('second');
+  });
+
+  it('rejects cancelled jobs, including running ones whose run ignores the signal', async () => {
+    const queue = createProcessingQueue({ concurrency: 1 });
+    const running = deferred<string>();
+    let signal: AbortSignal | undefined;
+    const runningResult = queue.enqueue('img-1', async (jobSignal) => {
+      signal = jobSignal;
+      return running.promise;
+    });
+    const pendingRun = vi.fn(async () => 'never');
+    const pendingResult = queue.enqueue('img-2', pendingRun);
+
+    queue.cancelAll();
+    await expect(pendingResult).rejects.toBeInstanceOf(JobCancelledError);
+    expect(signal?.aborted).toBe(true);
+
+    running.resolve('too late');
+    await expect(runningResult).rejects.toBeInstanceOf(JobCancelledError);
+    expect(pendingRun).not.toHaveBeenCalled();
+  });
+
+  it('cancels a job that is waiting to retry', async () => {
+    vi.useFakeTimers();
+    const queue = createProcessingQueue({ baseDelayMs: 1000, isRetryable: () => true });
+    const run = vi.fn().mockRejectedValue(new Error('busy'));
+    const result = queue.enqueue('img-1', run);
+    const settled = expect(result).rejects.toBeInstanceOf(JobCancelledError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    queue.cancel('img-1');
+    await settled;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
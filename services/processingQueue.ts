@@ -0,0 +1,166 @@
+import { isRetryableError } from './imageEditErrors';
+
+export interface ProcessingQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable: (error: unknown) => boolean;
+}
+
+export interface QueueStatus {
+  pending: number;
+  running: number;
+  paused: boolean;
+}
+
+export interface ProcessingQueue {
+  enqueue: <T>(id: string, run: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getStatus: () => QueueStatus;
+  subscribe: (listener: (status: QueueStatus) => void) => () => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('The job was cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const DEFAULT_QUEUE_OPTIONS: ProcessingQueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  isRetryable: isRetryableError,
+};
+
+interface QueuedJob {
+  id: string;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new JobCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const createProcessingQueue = (options: Partial<ProcessingQueueOptions> = {}): ProcessingQueue => {
+  const settings: ProcessingQueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  const pending: QueuedJob[] = [];
+  const running = new Set<QueuedJob>();
+  const listeners = new Set<(status: QueueStatus) => void>();
+  let paused = false;
+
+  const getStatus = (): QueueStatus => ({ pending: pending.length, running: running.size, paused });
+
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  // Exponential backoff with jitter, capped at maxDelayMs.
+  const backoffDelay = (attempt: number): number => {
+    const delay = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  };
+
+  const runWithRetry = async (job: QueuedJob): Promise<unknown> => {
+    const { signal } = job.controller;
+    for (let attempt = 0; ; attempt++) {
+      if (signal.aborted) throw new JobCancelledError();
+      try {
+        const result = await job.run(signal);
+        // A run that ignores its signal still finishes; what it produced after a cancel is dropped.
+        if (signal.aborted) throw new JobCancelledError();
+        return result;
+      } catch (error) {
+        if (signal.aborted) throw new JobCancelledError();
+        if (attempt >= settings.maxRetries || !settings.isRetryable(error)) throw error;
+        await wait(backoffDelay(attempt), signal);
+      }
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running.size < settings.concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running.add(job);
+      runWithRetry(job)
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          running.delete(job);
+          pump();
+        });
+    }
+    notify();
+  };
+
+  const abortJob = (job: QueuedJob) => {
+    job.controller.abort();
+    const index = pending.indexOf(job);
+    if (index !== -1) {
+      pending.splice(index, 1);
+      job.reject(new JobCancelledError());
+    }
+  };
+
+  return {
+    enqueue: <T>(id: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+      return new Promise<T>((resolve, reject) => {
+        pending.push({
+          id,
+          run,
+          controller: new AbortController(),
+          resolve: value => resolve(value as T),
+          reject,
+        });
+        pump();
+      });
+    },
+    cancel: (id: string) => {
+      [...pending, ...running].filter(job => job.id === id).forEach(abortJob);
+      notify();
+    },
+    cancelAll: () => {
+      [...pending, ...running].forEach(abortJob);
+      notify();
+    },
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    setConcurrency: (concurrency: number) => {
+      settings.concurrency = Math.max(1, Math.floor(concurrency));
+      pump();
+    },
+    getStatus,
+    subscribe: (listener: (status: QueueStatus) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { migrateProjectManifest, parseProjectManifest, PROJECT_FORMAT, PROJECT_VERSION } from './projectFile';
+import { DEFAULT_TILING_OPTIONS } from './tiledProcessing';
+import { DEFAULT_PREPROCESS_OPTIONS } from '../utils/imagePreprocessing';
+
+const version = (id: string, parentId: string | null) => ({
+  id,
+  parentId,
+  prompt: `prompt ${id}`,
+  createdAt: 1700000000000,
+  references: [{ name: 'sunset.jpg', strength: 'strong' }],
+  result: `images/001/${id}.png`,
+});
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: '2026-10-18T10:00:00.000Z',
+  settings: { tiling: { ...DEFAULT_TILING_OPTIONS, enabled: true } },
+  images: [{
+    id: 'img-1',
+    sourceName: 'beach.jpg',
+    status: 'done',
+    original: 'images/001/original.jpg',
+    prompt: 'warmer',
+    isProcessed: true,
+    error: null,
+    history: [version('a', null), version('b', 'a')],
+    currentVersionId: 'b',
+    redoStack: [],
+    mask: null,
+    preset: { presetId: 'people-and-text', variables: {} },
+    originalDimensions: { width: 4000, height: 3000 },
+    qualityCheck: null,
+    references: [{ id: 'ref-1', name: 'sunset.jpg', strength: 'strong', file: 'images/001/reference-1.jpg' }],
+  }],
+  ...overrides,
+});
+
+describe('parseProjectManifest', () => {
+  it('reads a saved manifest, filling settings that were not saved with their defaults', () => {
+    const parsed = parseProjectManifest(manifest());
+
+    expect(parsed.images).toHaveLength(1);
+    expect(parsed.images[0]).toMatchObject({
+      id: 'img-1',
+      isProcessed: true,
+      currentVersionId: 'b',
+      history: [{ id: 'a', parentId: null }, { id: 'b', parentId: 'a', references: [{ name: 'sunset.jpg', strength: 'strong' }] }],
+    });
+    expect(parsed.settings.tiling.enabled).toBe(true);
+    expect(parsed.settings.variants.count).toBe(1);
+    expect(parsed.settings.customPresets).toEqual([]);
+  });
+
+  it('defaults optional image fields that are missing', () => {
+    const parsed = parseProjectManifest(manifest({
+      images: [{ id: 'img-1', original: 'images/001/original.jpg' }],
+    }));
+
+    expect(parsed.images[0]).toMatchObject({
+      sourceName: 'image',
+      prompt: '',
+      isProcessed: false,
+      history: [],
+      currentVersionId: null,
+      mask: null,
+      references: [],
+    });
+  });
+
+  it('names the offending field when a version points at a missing parent', () => {
+    const broken = manifest();
+    broken.images[0].history = [version('b', 'missing')];
+
+    expect(() => parseProjectManifest(broken)).toThrow('"images[0].history[0].parentId" must be the id of another version');
+  });
+
+  it('rejects duplicate image ids and invalid reference strengths', () => {
+    const image = manifest().images[0];
+    expect(() => parseProjectManifest(manifest({ images: [image, image] }))).toThrow('"images[1].id" must be unique');
+    expect(() => parseProjectManifest(manifest({ images: [{ ...image, references: [{ ...image.references[0], strength: 'max' }] }] })))
+      .toThrow('"images[0].references[0].strength" must be one of');
+  });
+
+  it('keeps settings within the limits the settings UI offers', () => {
+    const parsed = parseProjectManifest(manifest({
+      settings: {
+        variants: { count: 50, temperature: 7, seed: -3 },
+        qualityCheck: { enabled: true, autoReclean: true, maxRecleanAttempts: 1e9 },
+        tiling: { enabled: true, tileSize: 0, overlap: 128 },
+        preprocess: { maxMegapixels: -4 },
+        export: { quality: 5, maxWidth: 0, maxHeight: 1200.4 },
+      },
+    }));
+
+    expect(parsed.settings.variants).toEqual({ count: 4, temperature: null, seed: 0 });
+    expect(parsed.settings.qualityCheck.maxRecleanAttempts).toBe(3);
+    expect(parsed.settings.tiling).toMatchObject({ tileSize: DEFAULT_TILING_OPTIONS.tileSize, overlap: 128 });
+    expect(parsed.settings.preprocess.maxMegapixels).toBe(DEFAULT_PREPROCESS_OPTIONS.maxMegapixels);
+    expect(parsed.settings.export).toMatchObject({ quality: 1, maxWidth: 1, maxHeight: 1200 });
+  });
+
+  it('drops quality checks whose detections are malformed', () => {
+    const image = manifest().images[0];
+    const check = { status: 'warn', versionId: 'b', checkedAt: 1700000000000, recleanAttempts: 1 };
+    const detection = { label: 'logo', box: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 } };
+    const parse = (qualityCheck: unknown) => parseProjectManifest(manifest({ images: [{ ...image, qualityCheck }] })).images[0].qualityCheck;
+
+    expect(parse({ ...check, detections: [detection] })).toEqual({ ...check, detections: [detection] });
+    expect(parse({ ...check, detections: [{ ...detection, box: { ...detection.box, width: 3 } }] })).toBeNull();
+    expect(parse({ ...check, detections: [{ box: detection.box }] })).toBeNull();
+    expect(parse({ ...check, detections: [detection], recleanAttempts: -1 })).toBeNull();
+  });
+
+  it('reads errors of unknown kinds as generic failures', () => {
+    const image = manifest().images[0];
+    const parsed = parseProjectManifest(manifest({
+      images: [{ ...image, error: { kind: 'meltdown', message: 'Something broke', retryable: 'yes' } }],
+    }));
+
+    expect(parsed.images[0].error).toEqual({ kind: 'unknown', message: 'Something broke', retryable: false, category: undefined, diagnostics: {} });
+  });
+
+  it('refuses files from other apps and newer formats', () => {
+    expect(() => parseProjectManifest({ images: [] })).toThrow('not a project saved by this app');
+    expect(() => parseProjectManifest(manifest({ version: PROJECT_VERSION + 1 }))).toThrow('newer version of the app');
+  });
+});
+
+describe('migrateProjectManifest', () => {
+  it('applies each step in order up to the target version', () => {
+    const migrations = {
+      1: (m: Record<string, unknown>) => ({ ...m, images: [], notes: 'from 1' }),
+      2: (m: Record<string, unknown>) => ({ ...m, notes: `${m.notes}, from 2` }),
+    };
+
+    expect(migrateProjectManifest({ format: PROJECT_FORMAT, version: 1 }, migrations, 3))
+      .toEqual({ format: PROJECT_FORMAT, version: 3, images: [], notes: 'from 1, from 2' });
+  });
+
+  it('fails clearly when a step is missing', () => {
+    expect(() => migrateProjectManifest({ format: PROJECT_FORMAT, version: 1 }, {}, 2)).toThrow('format 1 can no longer be opened');
+  });
+});
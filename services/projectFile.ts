@@ -0,0 +1,485 @@
+import type { HistoryEntry, ImageState, ReferenceRecord, StyleReference } from '../types';
+import { REFERENCE_STRENGTHS } from './imageEditProvider';
+import type { ReferenceStrength } from './imageEditProvider';
+import type { Detection } from './contentDetection';
+import { IMAGE_EDIT_ERROR_KINDS } from './imageEditErrors';
+import type { ImageEditErrorKind, ImageErrorInfo } from './imageEditErrors';
+import { DEFAULT_QUALITY_CHECK_OPTIONS, MAX_RECLEAN_ATTEMPTS } from './qualityCheck';
+import type { QualityCheckOptions, QualityCheckResult } from './qualityCheck';
+import { DEFAULT_TILING_OPTIONS, OVERLAP_CHOICES, TILE_SIZE_CHOICES } from './tiledProcessing';
+import type { TilingOptions } from './tiledProcessing';
+import { DEFAULT_EXPORT_OPTIONS } from '../utils/exportUtils';
+import type { ExportFormat, ExportOptions } from '../utils/exportUtils';
+import { blobToDataUrl, imageUrlToBlob, revokeObjectUrls } from '../utils/fileUtils';
+import { getImageStatus, IMAGE_STATUSES } from '../utils/gallery';
+import type { ImageStatus } from '../utils/gallery';
+import { sniffImageMimeType } from '../utils/imageSniffing';
+import { DEFAULT_PREPROCESS_OPTIONS, MEGAPIXEL_CHOICES } from '../utils/imagePreprocessing';
+import type { ImageDimensions, PreprocessOptions } from '../utils/imagePreprocessing';
+import { DEFAULT_PRESET_ID, parsePresets } from '../utils/presets';
+import type { CleaningPreset, PresetSelection } from '../utils/presets';
+import { DEFAULT_VARIANT_OPTIONS, MAX_VARIANTS, TEMPERATURE_CHOICES } from '../utils/variants';
+import type { VariantOptions } from '../utils/variants';
+import { createZip, readZip } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+
+export const PROJECT_FORMAT = 'ai-background-preserver/project';
+// Bump when the manifest shape changes, and add a step to PROJECT_MIGRATIONS for the old version.
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.abproject';
+
+const MANIFEST_FILE = 'project.json';
+
+// Batch-wide settings travel with the project so a colleague gets the same results from the same prompts.
+export interface ProjectSettings {
+  batchPreset: PresetSelection;
+  // Custom presets, so per-image and batch preset ids still resolve on another machine.
+  customPresets: CleaningPreset[];
+  preprocess: PreprocessOptions;
+  tiling: TilingOptions;
+  qualityCheck: QualityCheckOptions;
+  variants: VariantOptions;
+  export: ExportOptions;
+}
+
+// Image files are stored next to the manifest and referred to by their path in the archive.
+interface ProjectVersion {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  createdAt: number;
+  references: ReferenceRecord[];
+  result: string;
+}
+
+interface ProjectReference {
+  id: string;
+  name: string;
+  strength: ReferenceStrength;
+  file: string;
+}
+
+interface ProjectImage {
+  id: string;
+  sourceName: string;
+  // For people reading the manifest; on open it follows from the other fields again.
+  status: ImageStatus;
+  original: string;
+  prompt: string;
+  isProcessed: boolean;
+  error: ImageErrorInfo | null;
+  history: ProjectVersion[];
+  currentVersionId: string | null;
+  redoStack: string[];
+  mask: { file: string; feather: number } | null;
+  preset: PresetSelection | null;
+  originalDimensions: ImageDimensions | null;
+  qualityCheck: QualityCheckResult | null;
+  references: ProjectReference[];
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  settings: ProjectSettings;
+  images: ProjectImage[];
+}
+
+export interface OpenedProject {
+  images: ImageState[];
+  settings: ProjectSettings;
+}
+
+type ManifestMigration = (manifest: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version each step upgrades from. Format 1 is the first, so there is nothing to upgrade yet.
+export const PROJECT_MIGRATIONS: Record<number, ManifestMigration> = {};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+export const buildProjectFileName = (date: Date = new Date()): string =>
+  `project-${date.toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+
+// Files are read one at a time so saving a large batch does not hold every image in memory twice.
+export const saveProject = async (images: ImageState[], settings: ProjectSettings): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const addFile = async (dir: string, name: string, url: string): Promise<string> => {
+    const blob = await imageUrlToBlob(url);
+    const path = `${dir}/${name}.${EXTENSIONS[blob.type] ?? 'bin'}`;
+    entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return path;
+  };
+
+  const projectImages: ProjectImage[] = [];
+  for (const [index, image] of images.entries()) {
+    const dir = `images/${String(index + 1).padStart(3, '0')}`;
+    const history: ProjectVersion[] = [];
+    for (const [versionIndex, entry] of image.history.entries()) {
+      history.push({
+        id: entry.id,
+        parentId: entry.parentId,
+        prompt: entry.prompt,
+        createdAt: entry.createdAt,
+        references: entry.references,
+        result: await addFile(dir, `v${versionIndex + 1}`, entry.resultUrl),
+      });
+    }
+    const references: ProjectReference[] = [];
+    for (const [referenceIndex, reference] of image.references.entries()) {
+      references.push({
+        id: reference.id,
+        name: reference.name,
+        strength: reference.strength,
+        file: await addFile(dir, `reference-${referenceIndex + 1}`, reference.imageUrl),
+      });
+    }
+    projectImages.push({
+      id: image.id,
+      sourceName: image.sourceName,
+      status: getImageStatus(image),
+      original: await addFile(dir, 'original', image.displayOriginalImageUrl),
+      prompt: image.prompt,
+      isProcessed: image.isProcessed,
+      error: image.error,
+      history,
+      currentVersionId: image.currentVersionId,
+      redoStack: image.redoStack,
+      mask: image.mask ? { file: await addFile(dir, 'mask', image.mask.dataUrl), feather: image.mask.feather } : null,
+      preset: image.preset,
+      originalDimensions: image.originalDimensions,
+      qualityCheck: image.qualityCheck,
+      references,
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings,
+    images: projectImages,
+  };
+  entries.unshift({ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (path: string, expected: string): never => {
+  throw new Error(`Invalid project file: "${path}" must be ${expected}.`);
+};
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : invalid(path, 'a string');
+
+const readNonEmptyString = (value: unknown, path: string): string =>
+  typeof value === 'string' && value !== '' ? value : invalid(path, 'a non-empty string');
+
+const readArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : invalid(path, 'a list');
+
+const readRecord = (value: unknown, path: string): Record<string, unknown> =>
+  isRecord(value) ? value : invalid(path, 'an object');
+
+// What the settings UI lets a numeric option take: one of a fixed list, or a range.
+type NumberLimit = { choices: readonly number[] } | { min: number; max: number; integer?: boolean };
+
+const applyLimit = (value: number, limit: NumberLimit | undefined): number | undefined => {
+  if (!Number.isFinite(value)) return undefined;
+  if (!limit) return value;
+  if ('choices' in limit) return limit.choices.includes(value) ? value : undefined;
+  const clamped = Math.min(limit.max, Math.max(limit.min, value));
+  return limit.integer ? Math.round(clamped) : clamped;
+};
+
+// Settings are read leniently: unknown or mistyped fields fall back to the defaults, so a project
+// still opens when an option was added or removed since it was saved. Numbers outside the limits
+// are clamped to them, or fall back to the default when they are not one of the listed choices.
+const readOptions = <T extends object>(
+  value: unknown,
+  defaults: T,
+  limits: Partial<Record<keyof T, NumberLimit>> = {}
+): T => {
+  if (!isRecord(value)) return { ...defaults };
+  const options = { ...defaults } as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, defaultValue]) => {
+    const field = value[key];
+    if (field === undefined) return;
+    if (typeof field === 'number' && (defaultValue === null || typeof defaultValue === 'number')) {
+      const limited = applyLimit(field, limits[key as keyof T]);
+      if (limited !== undefined) options[key] = limited;
+    } else if (defaultValue === null ? field === null : typeof field === typeof defaultValue) {
+      options[key] = field;
+    }
+  });
+  return options as T;
+};
+
+const readPresetSelection = (value: unknown): PresetSelection | null => {
+  if (!isRecord(value) || typeof value.presetId !== 'string') return null;
+  const variables = isRecord(value.variables)
+    ? Object.fromEntries(Object.entries(value.variables).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+  return { presetId: value.presetId, variables };
+};
+
+const readSettings = (value: unknown): ProjectSettings => {
+  const settings = isRecord(value) ? value : {};
+  const exportOptions = readOptions(settings.export, DEFAULT_EXPORT_OPTIONS, {
+    quality: { min: 0.1, max: 1 },
+    maxWidth: { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+    maxHeight: { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+  });
+  const exportFormats: ExportFormat[] = ['png', 'jpeg', 'webp'];
+  return {
+    batchPreset: readPresetSelection(settings.batchPreset) ?? { presetId: DEFAULT_PRESET_ID, variables: {} },
+    customPresets: Array.isArray(settings.customPresets) ? parsePresets(settings.customPresets) : [],
+    preprocess: readOptions(settings.preprocess, DEFAULT_PREPROCESS_OPTIONS, {
+      maxMegapixels: { choices: MEGAPIXEL_CHOICES },
+    }),
+    tiling: readOptions(settings.tiling, DEFAULT_TILING_OPTIONS, {
+      tileSize: { choices: TILE_SIZE_CHOICES },
+      overlap: { choices: OVERLAP_CHOICES },
+    }),
+    qualityCheck: readOptions(settings.qualityCheck, DEFAULT_QUALITY_CHECK_OPTIONS, {
+      maxRecleanAttempts: { min: 1, max: MAX_RECLEAN_ATTEMPTS, integer: true },
+    }),
+    variants: readOptions(settings.variants, DEFAULT_VARIANT_OPTIONS, {
+      count: { min: 1, max: MAX_VARIANTS, integer: true },
+      temperature: { choices: TEMPERATURE_CHOICES },
+      seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+    }),
+    export: exportFormats.includes(exportOptions.format) ? exportOptions : { ...exportOptions, format: DEFAULT_EXPORT_OPTIONS.format },
+  };
+};
+
+const readStrength = (value: unknown, path: string): ReferenceStrength =>
+  REFERENCE_STRENGTHS.includes(value as ReferenceStrength) ? value as ReferenceStrength : invalid(path, `one of ${REFERENCE_STRENGTHS.join(', ')}`);
+
+const readReferenceRecords = (value: unknown, path: string): ReferenceRecord[] =>
+  value === undefined ? [] : readArray(value, path).map((item, index) => {
+    const record = readRecord(item, `${path}[${index}]`);
+    return { name: readString(record.name, `${path}[${index}].name`), strength: readStrength(record.strength, `${path}[${index}].strength`) };
+  });
+
+// Kinds this version does not know are shown as a generic failure rather than dropped.
+const readError = (value: unknown): ImageErrorInfo | null => {
+  if (!isRecord(value) || typeof value.message !== 'string') return null;
+  return {
+    kind: IMAGE_EDIT_ERROR_KINDS.includes(value.kind as ImageEditErrorKind) ? value.kind as ImageEditErrorKind : 'unknown',
+    message: value.message,
+    retryable: value.retryable === true,
+    category: typeof value.category === 'string' ? value.category : undefined,
+    diagnostics: isRecord(value.diagnostics) ? value.diagnostics : {},
+  };
+};
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+const readDetection = (value: unknown): Detection | null => {
+  if (!isRecord(value) || typeof value.label !== 'string' || !isRecord(value.box)) return null;
+  const { x, y, width, height } = value.box;
+  if (!isFraction(x) || !isFraction(y) || !isFraction(width) || !isFraction(height) || width === 0 || height === 0) return null;
+  return { label: value.label, box: { x, y, width, height } };
+};
+
+// The check only describes an earlier result, so anything malformed drops it and the image simply
+// shows as unchecked.
+const readQualityCheck = (value: unknown): QualityCheckResult | null => {
+  if (!isRecord(value) || !Array.isArray(value.detections)) return null;
+  const { status, checkedAt, recleanAttempts } = value;
+  if (status !== 'pass' && status !== 'warn') return null;
+  const detections = value.detections.flatMap(item => readDetection(item) ?? []);
+  if (detections.length !== value.detections.length) return null;
+  const versionId = typeof value.versionId === 'string' ? value.versionId : null;
+  if (versionId === null && value.versionId !== null) return null;
+  if (typeof checkedAt !== 'number' || !Number.isFinite(checkedAt)) return null;
+  if (typeof recleanAttempts !== 'number' || !Number.isInteger(recleanAttempts) || recleanAttempts < 0) return null;
+  return { status, detections, versionId, checkedAt, recleanAttempts };
+};
+
+const readDimensions = (value: unknown): ImageDimensions | null =>
+  isRecord(value) && typeof value.width === 'number' && typeof value.height === 'number'
+    ? { width: value.width, height: value.height }
+    : null;
+
+const readImage = (value: unknown, path: string): ProjectImage => {
+  const image = readRecord(value, path);
+  const history = readArray(image.history ?? [], `${path}.history`).map((item, index): ProjectVersion => {
+    const entryPath = `${path}.history[${index}]`;
+    const entry = readRecord(item, entryPath);
+    return {
+      id: readNonEmptyString(entry.id, `${entryPath}.id`),
+      parentId: entry.parentId === null || entry.parentId === undefined ? null : readString(entry.parentId, `${entryPath}.parentId`),
+      prompt: readString(entry.prompt, `${entryPath}.prompt`),
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : invalid(`${entryPath}.createdAt`, 'a number'),
+      references: readReferenceRecords(entry.references, `${entryPath}.references`),
+      result: readNonEmptyString(entry.result, `${entryPath}.result`),
+    };
+  });
+  const versionIds = new Set(history.map(entry => entry.id));
+  history.forEach((entry, index) => {
+    if (entry.parentId !== null && !versionIds.has(entry.parentId)) invalid(`${path}.history[${index}].parentId`, 'the id of another version of the image');
+  });
+  const currentVersionId = typeof image.currentVersionId === 'string' && versionIds.has(image.currentVersionId) ? image.currentVersionId : null;
+  const mask = isRecord(image.mask)
+    ? { file: readNonEmptyString(image.mask.file, `${path}.mask.file`), feather: typeof image.mask.feather === 'number' ? image.mask.feather : 0 }
+    : null;
+
+  return {
+    id: readNonEmptyString(image.id, `${path}.id`),
+    sourceName: typeof image.sourceName === 'string' && image.sourceName ? image.sourceName : 'image',
+    status: IMAGE_STATUSES.includes(image.status as ImageStatus) ? image.status as ImageStatus : 'pending',
+    original: readNonEmptyString(image.original, `${path}.original`),
+    prompt: typeof image.prompt === 'string' ? image.prompt : '',
+    // A processed image without a current version has nothing to show, so it is cleaned again.
+    isProcessed: image.isProcessed === true && currentVersionId !== null,
+    error: readError(image.error),
+    history,
+    currentVersionId,
+    redoStack: Array.isArray(image.redoStack) ? image.redoStack.filter((id): id is string => typeof id === 'string' && versionIds.has(id)) : [],
+    mask,
+    preset: readPresetSelection(image.preset),
+    originalDimensions: readDimensions(image.originalDimensions),
+    qualityCheck: readQualityCheck(image.qualityCheck),
+    references: readArray(image.references ?? [], `${path}.references`).map((item, index) => {
+      const referencePath = `${path}.references[${index}]`;
+      const reference = readRecord(item, referencePath);
+      return {
+        id: readNonEmptyString(reference.id, `${referencePath}.id`),
+        name: readString(reference.name, `${referencePath}.name`),
+        strength: readStrength(reference.strength, `${referencePath}.strength`),
+        file: readNonEmptyString(reference.file, `${referencePath}.file`),
+      };
+    }),
+  };
+};
+
+// Upgrades a manifest from an older format one version at a time. Newer formats are refused
+// rather than guessed at, since they may hold data this version would silently drop.
+export const migrateProjectManifest = (
+  raw: unknown,
+  migrations: Record<number, ManifestMigration> = PROJECT_MIGRATIONS,
+  targetVersion: number = PROJECT_VERSION
+): Record<string, unknown> => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a project saved by this app.');
+  }
+  let version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The project file has no valid format version.');
+  }
+  if (version > targetVersion) {
+    throw new Error(`This project was saved by a newer version of the app (format ${version}). Update the app to open it.`);
+  }
+  let manifest = raw;
+  for (; version < targetVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Projects in format ${version} can no longer be opened.`);
+    }
+    manifest = { ...migrate(manifest), version: version + 1 };
+  }
+  return manifest;
+};
+
+export const parseProjectManifest = (raw: unknown): ProjectManifest => {
+  const manifest = migrateProjectManifest(raw);
+  const images = readArray(manifest.images, 'images').map((item, index) => readImage(item, `images[${index}]`));
+  const ids = new Set<string>();
+  images.forEach((image, index) => {
+    if (ids.has(image.id)) invalid(`images[${index}].id`, 'unique');
+    ids.add(image.id);
+  });
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof manifest.savedAt === 'string' ? manifest.savedAt : '',
+    settings: readSettings(manifest.settings),
+    images,
+  };
+};
+
+// Rebuilds the images as they were saved, with object URLs over the archived files. If any file
+// is missing, the URLs created so far are released and nothing is returned.
+export const openProject = async (file: Blob): Promise<OpenedProject> => {
+  const files = new Map(readZip(new Uint8Array(await file.arrayBuffer())).map(entry => [entry.name, entry.data]));
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error(`This file is not a project: ${MANIFEST_FILE} is missing.`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestData));
+  } catch {
+    throw new Error(`The project's ${MANIFEST_FILE} is not valid JSON.`);
+  }
+  const manifest = parseProjectManifest(raw);
+
+  const createdUrls: string[] = [];
+  const readBlob = (path: string): Blob => {
+    const data = files.get(path);
+    if (!data) {
+      throw new Error(`The project is missing "${path}".`);
+    }
+    return new Blob([data], { type: sniffImageMimeType(data) ?? 'application/octet-stream' });
+  };
+  const readUrl = (path: string): string => {
+    const url = URL.createObjectURL(readBlob(path));
+    createdUrls.push(url);
+    return url;
+  };
+
+  try {
+    const images: ImageState[] = [];
+    for (const image of manifest.images) {
+      const history: HistoryEntry[] = image.history.map(entry => ({
+        id: entry.id,
+        parentId: entry.parentId,
+        prompt: entry.prompt,
+        createdAt: entry.createdAt,
+        references: entry.references,
+        resultUrl: readUrl(entry.result),
+      }));
+      const references: StyleReference[] = image.references.map(reference => ({
+        id: reference.id,
+        name: reference.name,
+        strength: reference.strength,
+        imageUrl: readUrl(reference.file),
+      }));
+      images.push({
+        id: image.id,
+        sourceName: image.sourceName,
+        displayOriginalImageUrl: readUrl(image.original),
+        latestProcessedImageUrl: history.find(entry => entry.id === image.currentVersionId)?.resultUrl ?? null,
+        prompt: image.prompt,
+        isLoading: false,
+        isProcessed: image.isProcessed,
+        error: image.error,
+        history,
+        currentVersionId: image.currentVersionId,
+        redoStack: image.redoStack,
+        mask: image.mask ? { dataUrl: await blobToDataUrl(readBlob(image.mask.file)), feather: image.mask.feather } : null,
+        preset: image.preset,
+        originalDimensions: image.originalDimensions,
+        progressMessage: null,
+        qualityCheck: image.qualityCheck,
+        references,
+        variants: null,
+      });
+    }
+    return { images, settings: manifest.settings };
+  } catch (err) {
+    revokeObjectUrls(createdUrls);
+    throw err;
+  }
+};
@@ -0,0 +1,88 @@
+import { EmptyResponseError, fromErrorInfo, NetworkError } from './imageEditErrors';
+import type { ErrorDiagnostics, ImageEditErrorKind } from './imageEditErrors';
+import type { ImageAnalysisRequest, ImageAnalysisResult, ImageEditProvider, ImageEditRequest, ImageEditResult } from './imageEditProvider';
+
+// Base URL of the image server in `server/`, e.g. "/api" when served through the Vite dev proxy.
+const getProxyUrl = (): string | undefined => process.env.IMAGE_PROXY_URL;
+
+interface ServerErrorBody {
+  error?: string;
+  retryable?: boolean;
+  kind?: ImageEditErrorKind;
+  category?: string;
+  diagnostics?: ErrorDiagnostics;
+}
+
+// Used when the response did not come from the image server itself, e.g. a gateway error page.
+const kindForStatus = (status: number): ImageEditErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  if (status >= 400) return 'invalid-input';
+  return 'unknown';
+};
+
+const postJson = async <T>(path: string, payload: unknown, signal?: AbortSignal): Promise<T> => {
+  const proxyUrl = getProxyUrl();
+  if (!proxyUrl) {
+    throw new Error("IMAGE_PROXY_URL environment variable not set");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${proxyUrl.replace(/\/$/, '')}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new NetworkError("A network error occurred while contacting the image server.", {
+      provider: 'proxy',
+      rawMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const body = await response.json().catch(() => null) as (Partial<T> & ServerErrorBody) | null;
+  if (!response.ok) {
+    throw fromErrorInfo({
+      kind: body?.kind ?? kindForStatus(response.status),
+      message: body?.error ?? `The image server responded with status ${response.status}.`,
+      retryable: body?.retryable ?? (response.status === 429 || response.status >= 500),
+      category: body?.category,
+      diagnostics: { ...body?.diagnostics, serverStatus: response.status },
+    });
+  }
+  return (body ?? {}) as T;
+};
+
+const editImage = async ({ image, prompt, mask, references, sampling, model, signal }: ImageEditRequest): Promise<ImageEditResult> => {
+  const body = await postJson<Partial<ImageEditResult>>('image-edit', { image, prompt, mask, references, sampling, model }, signal);
+  if (!body.base64 || !body.mimeType) {
+    throw new EmptyResponseError("No image data found in the image server response.", { provider: 'proxy' });
+  }
+  return { base64: body.base64, mimeType: body.mimeType, usage: body.usage };
+};
+
+const analyzeImage = async ({ image, prompt, signal }: ImageAnalysisRequest): Promise<ImageAnalysisResult> => {
+  const body = await postJson<Partial<ImageAnalysisResult>>('image-analyze', { image, prompt }, signal);
+  if (typeof body.text !== 'string') {
+    throw new EmptyResponseError("No text found in the image server response.", { provider: 'proxy' });
+  }
+  return { text: body.text, usage: body.usage };
+};
+
+export const proxyProvider: ImageEditProvider = {
+  id: 'proxy',
+  label: 'Image server (Gemini)',
+  models: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  defaultModel: 'gemini-2.5-flash-image',
+  analysisModel: 'gemini-2.5-flash',
+  // The server forwards sampling to its own provider, Gemini by default.
+  supportsSampling: true,
+  isAvailable: () => Boolean(getProxyUrl()),
+  editImage,
+  analyzeImage,
+};
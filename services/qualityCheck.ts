@@ -0,0 +1,40 @@
+import { detectRemovableContent } from './contentDetection';
+import type { Detection } from './contentDetection';
+import type { RequestContext } from './geminiService';
+
+export type QualityStatus = 'pass' | 'warn';
+
+export interface QualityCheckResult {
+  status: QualityStatus;
+  // Leftovers the model still found; empty when the check passed.
+  detections: Detection[];
+  // The version that was checked, so the result is not shown against a later edit.
+  versionId: string | null;
+  checkedAt: number;
+  // Automatic re-cleans run before this result.
+  recleanAttempts: number;
+}
+
+export interface QualityCheckOptions {
+  enabled: boolean;
+  autoReclean: boolean;
+  maxRecleanAttempts: number;
+}
+
+export const MAX_RECLEAN_ATTEMPTS = 3;
+
+export const DEFAULT_QUALITY_CHECK_OPTIONS: QualityCheckOptions = {
+  enabled: false,
+  autoReclean: false,
+  maxRecleanAttempts: 2,
+};
+
+// Asks the model what the cleaning instruction should have removed but is still visible.
+export const findLeftovers = (imageUrl: string, cleaningPrompt: string, context: RequestContext = {}): Promise<Detection[]> =>
+  detectRemovableContent(imageUrl, cleaningPrompt, context);
+
+export const summarizeLeftovers = (detections: Detection[]): string => {
+  const counts = new Map<string, number>();
+  detections.forEach(d => counts.set(d.label, (counts.get(d.label) ?? 0) + 1));
+  return Array.from(counts, ([label, count]) => count > 1 ? `${count}× ${label}` : label).join(', ');
+};
@@ -0,0 +1,81 @@
+import { detectRemovableContent } from './contentDetection';
+import { processImageUrl } from './geminiService';
+import type { ImageUrlEditOptions } from './geminiService';
+import { cropMask, loadImage } from '../utils/maskUtils';
+import type { MaskState } from '../utils/maskUtils';
+import { blendTile, cropToDataUrl, planTiles } from '../utils/tiling';
+
+export interface TilingOptions {
+  enabled: boolean;
+  tileSize: number;
+  overlap: number;
+  // Ask the model whether a tile contains anything to remove before editing it.
+  skipEmptyTiles: boolean;
+}
+
+export interface TileProgress {
+  completed: number;
+  skipped: number;
+  total: number;
+}
+
+export const TILE_SIZE_CHOICES = [768, 1024, 1536, 2048];
+export const OVERLAP_CHOICES = [64, 128, 256];
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+  enabled: false,
+  tileSize: 1024,
+  overlap: 128,
+  skipEmptyTiles: true,
+};
+
+// Cleans a large image tile by tile at full resolution. Images that fit in a single tile go
+// through the normal one-shot pipeline.
+export const processImageTiled = async (
+  imageUrl: string,
+  prompt: string,
+  mask: MaskState | null,
+  options: TilingOptions,
+  onProgress: (progress: TileProgress) => void,
+  context: ImageUrlEditOptions = {}
+): Promise<string> => {
+  const source = await loadImage(imageUrl);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+  const tiles = planTiles(width, height, options.tileSize, options.overlap);
+  if (tiles.length === 1) {
+    return processImageUrl(imageUrl, prompt, mask, context);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D rendering is not supported in this browser.");
+  }
+  ctx.drawImage(source, 0, 0);
+
+  const progress: TileProgress = { completed: 0, skipped: 0, total: tiles.length };
+  onProgress({ ...progress });
+
+  for (const tile of tiles) {
+    context.signal?.throwIfAborted();
+    const tileUrl = cropToDataUrl(source, tile);
+    const tileMask = mask ? await cropMask(mask, width, height, tile) : null;
+    const hasWork = mask
+      ? tileMask !== null
+      : !options.skipEmptyTiles || (await detectRemovableContent(tileUrl, prompt, context)).length > 0;
+
+    if (hasWork) {
+      const resultUrl = await processImageUrl(tileUrl, prompt, tileMask, context);
+      blendTile(ctx, await loadImage(resultUrl), tile, options.overlap);
+    } else {
+      progress.skipped++;
+    }
+    progress.completed++;
+    onProgress({ ...progress });
+  }
+
+  return canvas.toDataURL('image/png');
+};
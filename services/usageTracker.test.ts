@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearUsageRecords, getUsageAggregates, getUsageRecords, recordUsage, SESSION_ID } from './usageTracker';
+import { DEFAULT_USAGE_SETTINGS, getBudgetWarnings, summarizeCounts, toDayKey } from '../utils/usageCost';
+
+const record = (imageId: string) => recordUsage({
+  imageId,
+  kind: 'edit',
+  providerId: 'mock',
+  model: 'mock-echo',
+  outcome: 'success',
+  latencyMs: 10,
+});
+
+describe('recordUsage', () => {
+  beforeEach(() => {
+    clearUsageRecords();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops the oldest records when localStorage is full instead of losing the new one', () => {
+    for (let i = 0; i < 7; i++) record(`img-${i}`);
+    const fullSize = localStorage.getItem('abp.usageLog')!.length;
+    const setItem = Storage.prototype.setItem;
+    // Room for the current log but not one more record.
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (value.length > fullSize) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    record('img-7');
+
+    const stored = JSON.parse(localStorage.getItem('abp.usageLog')!);
+    expect(stored.map((entry: { imageId: string }) => entry.imageId)).toEqual(['img-4', 'img-5', 'img-6', 'img-7']);
+    expect(getUsageRecords()).toEqual(stored);
+    // The totals still count every request.
+    expect(summarizeCounts(getUsageAggregates().sessions[SESSION_ID], {}).requests).toBe(8);
+  });
+
+  it('keeps per-day and per-session totals that budget warnings are checked against', () => {
+    const usage = { promptTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 };
+    recordUsage({ imageId: 'img-1', kind: 'edit', providerId: 'gemini', model: 'gemini-2.5-flash-image', outcome: 'success', latencyMs: 10, usage });
+    recordUsage({ imageId: 'img-1', kind: 'edit', providerId: 'gemini', model: 'gemini-2.5-flash-image', outcome: 'error', latencyMs: 30, usage });
+
+    const aggregates = getUsageAggregates();
+    expect(summarizeCounts(aggregates.days[toDayKey(Date.now())], DEFAULT_USAGE_SETTINGS.prices))
+      .toMatchObject({ requests: 2, failures: 1, promptTokens: 2_000_000, totalLatencyMs: 40, cost: 0.6 });
+    expect(getBudgetWarnings(aggregates, SESSION_ID, { ...DEFAULT_USAGE_SETTINGS, sessionBudget: 0.5 }))
+      .toEqual(["This session's estimated spend ($0.60) has reached the session budget of $0.50."]);
+
+    clearUsageRecords();
+    expect(getUsageAggregates()).toEqual({ days: {}, sessions: {}, allTime: {} });
+  });
+});
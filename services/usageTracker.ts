@@ -0,0 +1,195 @@
+import type { ImageEditErrorKind } from './imageEditErrors';
+import type { TokenUsage } from './imageEditProvider';
+import { toDayKey } from '../utils/usageCost';
+
+export type UsageRequestKind = 'edit' | 'analyze';
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  sessionId: string;
+  // The image the request was made for, when known.
+  imageId: string | null;
+  kind: UsageRequestKind;
+  providerId: string;
+  model: string;
+  outcome: UsageOutcome;
+  errorKind?: ImageEditErrorKind;
+  latencyMs: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'timestamp' | 'sessionId' | 'promptTokens' | 'outputTokens' | 'totalTokens'> & {
+  usage?: TokenUsage;
+};
+
+// Running counts of the requests made with one model.
+export interface UsageCounts {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  totalLatencyMs: number;
+}
+
+// Counts per model id, so costs can be recomputed when prices change.
+export type ModelUsageCounts = Record<string, UsageCounts>;
+
+// Totals are kept apart from the capped record log, so days and sessions with more requests than
+// the log holds are still counted in full.
+export interface UsageAggregates {
+  // Keyed by local day, e.g. "2025-03-14".
+  days: Record<string, ModelUsageCounts>;
+  // Keyed by session id.
+  sessions: Record<string, ModelUsageCounts>;
+  allTime: ModelUsageCounts;
+}
+
+const STORAGE_KEY = 'abp.usageLog';
+const AGGREGATES_STORAGE_KEY = 'abp.usageTotals';
+// Oldest records are dropped beyond this. The whole log is rewritten synchronously on every
+// request, so it is kept to a few hundred kilobytes. Totals do not depend on it.
+const MAX_RECORDS = 1_000;
+// Older days and sessions are dropped from the totals beyond these.
+const MAX_DAYS = 366;
+const MAX_SESSIONS = 50;
+
+// Identifies this page load; every record made before a reload belongs to the same session.
+export const SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+let records: UsageRecord[] | null = null;
+let aggregates: UsageAggregates | null = null;
+const listeners = new Set<(records: UsageRecord[], aggregates: UsageAggregates) => void>();
+const recordListeners = new Set<(record: UsageRecord) => void>();
+
+const emptyAggregates = (): UsageAggregates => ({ days: {}, sessions: {}, allTime: {} });
+
+const readJson = (key: string): unknown => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const loadRecords = (): UsageRecord[] => {
+  const parsed = readJson(STORAGE_KEY);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const loadAggregates = (): UsageAggregates => {
+  const parsed = readJson(AGGREGATES_STORAGE_KEY) as Partial<UsageAggregates> | null;
+  if (!parsed || typeof parsed !== 'object') return emptyAggregates();
+  return { days: parsed.days ?? {}, sessions: parsed.sessions ?? {}, allTime: parsed.allTime ?? {} };
+};
+
+const isQuotaExceeded = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// When storage is full (other data on the origin counts too), the oldest half of the log is
+// dropped until it fits, so the newest records survive. The totals are small and saved first.
+const persist = (next: UsageRecord[], nextAggregates: UsageAggregates): void => {
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(AGGREGATES_STORAGE_KEY, JSON.stringify(nextAggregates));
+    } catch (err) {
+      console.error("Failed to save the usage totals:", err);
+    }
+    for (;;) {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        break;
+      } catch (err) {
+        if (!isQuotaExceeded(err) || next.length === 0) {
+          console.error("Failed to save the usage log:", err);
+          break;
+        }
+        next = next.slice(Math.ceil(next.length / 2));
+      }
+    }
+  }
+  records = next;
+  aggregates = nextAggregates;
+  listeners.forEach(listener => listener(next, nextAggregates));
+};
+
+export const getUsageRecords = (): UsageRecord[] => {
+  if (!records) {
+    records = loadRecords();
+  }
+  return records;
+};
+
+export const getUsageAggregates = (): UsageAggregates => {
+  if (!aggregates) {
+    aggregates = loadAggregates();
+  }
+  return aggregates;
+};
+
+const addRecord = (counts: ModelUsageCounts = {}, record: UsageRecord): ModelUsageCounts => {
+  const previous = counts[record.model] ?? { requests: 0, failures: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, totalLatencyMs: 0 };
+  return {
+    ...counts,
+    [record.model]: {
+      requests: previous.requests + 1,
+      failures: previous.failures + (record.outcome === 'error' ? 1 : 0),
+      promptTokens: previous.promptTokens + record.promptTokens,
+      outputTokens: previous.outputTokens + record.outputTokens,
+      totalTokens: previous.totalTokens + record.totalTokens,
+      totalLatencyMs: previous.totalLatencyMs + record.latencyMs,
+    },
+  };
+};
+
+// Keeps the last `max` keys in insertion order; day keys are added in date order.
+const keepLatest = <T>(entries: Record<string, T>, max: number): Record<string, T> =>
+  Object.fromEntries(Object.entries(entries).slice(-max));
+
+const addToAggregates = (current: UsageAggregates, record: UsageRecord): UsageAggregates => {
+  const day = toDayKey(record.timestamp);
+  return {
+    days: keepLatest({ ...current.days, [day]: addRecord(current.days[day], record) }, MAX_DAYS),
+    sessions: keepLatest({ ...current.sessions, [record.sessionId]: addRecord(current.sessions[record.sessionId], record) }, MAX_SESSIONS),
+    allTime: addRecord(current.allTime, record),
+  };
+};
+
+export const recordUsage = ({ usage, ...entry }: NewUsageRecord): void => {
+  const record: UsageRecord = {
+    ...entry,
+    id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    sessionId: SESSION_ID,
+    promptTokens: usage?.promptTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    totalTokens: usage?.totalTokens ?? 0,
+  };
+  persist([...getUsageRecords(), record].slice(-MAX_RECORDS), addToAggregates(getUsageAggregates(), record));
+  recordListeners.forEach(listener => listener(record));
+};
+
+export const clearUsageRecords = (): void => {
+  persist([], emptyAggregates());
+};
+
+export const subscribeUsage = (listener: (records: UsageRecord[], aggregates: UsageAggregates) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Called with each new record; lets a caller total its own requests without reading the log.
+export const onUsageRecorded = (listener: (record: UsageRecord) => void): (() => void) => {
+  recordListeners.add(listener);
+  return () => {
+    recordListeners.delete(listener);
+  };
+};
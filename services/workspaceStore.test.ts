@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { hasPersistentChanges } from './workspaceStore';
+import type { ImageState } from '../types';
+
+const image: ImageState = {
+  id: '1',
+  sourceName: 'beach.jpg',
+  displayOriginalImageUrl: 'blob:original',
+  latestProcessedImageUrl: null,
+  prompt: '',
+  isLoading: false,
+  isProcessed: false,
+  error: null,
+  history: [],
+  currentVersionId: null,
+  redoStack: [],
+  mask: null,
+  preset: null,
+  originalDimensions: null,
+  progressMessage: null,
+  qualityCheck: null,
+  references: [],
+  variants: null,
+};
+
+describe('hasPersistentChanges', () => {
+  it('ignores progress updates and loading toggles', () => {
+    expect(hasPersistentChanges(image, { ...image, isLoading: true, progressMessage: 'Tile 2/4' })).toBe(false);
+  });
+
+  it('saves new versions and other lasting edits', () => {
+    expect(hasPersistentChanges(image, { ...image, currentVersionId: 'v1', history: [] })).toBe(true);
+    expect(hasPersistentChanges(image, { ...image, preset: { presetId: 'people', variables: {} } })).toBe(true);
+    expect(hasPersistentChanges(image, { ...image, prompt: 'Make the sky bluer' })).toBe(true);
+  });
+});
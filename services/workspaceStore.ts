@@ -0,0 +1,232 @@
+import type { ImageState, ReferenceRecord } from '../types';
+import type { ReferenceStrength } from './imageEditProvider';
+import type { PresetSelection } from '../utils/presets';
+import type { ImageDimensions } from '../utils/imagePreprocessing';
+import type { ImageErrorInfo } from './imageEditErrors';
+import type { QualityCheckResult } from './qualityCheck';
+import { blobToDataUrl, dataUrlToBlob, imageUrlToBlob } from '../utils/fileUtils';
+
+const DB_NAME = 'ai-background-preserver';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+
+interface StoredHistoryEntry {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  createdAt: number;
+  result: Blob;
+  references?: ReferenceRecord[];
+}
+
+interface StoredReference {
+  id: string;
+  name: string;
+  strength: ReferenceStrength;
+  image: Blob;
+}
+
+interface StoredImage {
+  id: string;
+  sourceName?: string;
+  position: number;
+  original: Blob;
+  prompt: string;
+  isProcessed: boolean;
+  // Older workspaces stored the error as a plain message.
+  error: ImageErrorInfo | string | null;
+  history: StoredHistoryEntry[];
+  currentVersionId: string | null;
+  redoStack: string[];
+  mask?: { image: Blob; feather: number } | null;
+  preset?: PresetSelection | null;
+  originalDimensions?: ImageDimensions | null;
+  qualityCheck?: QualityCheckResult | null;
+  references?: StoredReference[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        return reject(new Error('IndexedDB is not available in this browser.'));
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(`Failed to open the saved workspace: ${request.error?.message}`));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGES_STORE, mode);
+    const request = action(transaction.objectStore(IMAGES_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(new Error(`Saved workspace operation failed: ${transaction.error?.message}`));
+    transaction.onabort = () => reject(new Error(`Saved workspace operation was aborted: ${transaction.error?.message}`));
+  });
+};
+
+// Fields that change constantly while a job runs and are not restored anyway. A change to only
+// these is not worth rewriting the record for. The prompt is saved: callers debounce instead.
+const TRANSIENT_FIELDS = new Set<keyof ImageState>(['progressMessage', 'isLoading', 'variants']);
+
+export const hasPersistentChanges = (previous: ImageState, next: ImageState): boolean =>
+  (Object.keys(next) as (keyof ImageState)[]).some(key => !TRANSIENT_FIELDS.has(key) && previous[key] !== next[key]);
+
+// Blobs read from each image's object URLs, so unchanged versions are not read again on every
+// save. Only the URLs used by the latest save are kept.
+const blobCache = new Map<string, Map<string, Promise<Blob>>>();
+
+const createBlobReader = (imageId: string) => {
+  const previous = blobCache.get(imageId) ?? new Map<string, Promise<Blob>>();
+  const current = new Map<string, Promise<Blob>>();
+  blobCache.set(imageId, current);
+  return (url: string): Promise<Blob> => {
+    let blob = current.get(url) ?? previous.get(url);
+    if (!blob) {
+      blob = imageUrlToBlob(url);
+      blob.catch(() => current.delete(url));
+    }
+    current.set(url, blob);
+    return blob;
+  };
+};
+
+const toStoredImage = async (image: ImageState, position: number): Promise<StoredImage> => {
+  const readBlob = createBlobReader(image.id);
+  return {
+    id: image.id,
+    sourceName: image.sourceName,
+    position,
+    original: await readBlob(image.displayOriginalImageUrl),
+    prompt: image.prompt,
+    isProcessed: image.isProcessed,
+    error: image.error,
+    history: await Promise.all(image.history.map(async entry => ({
+      id: entry.id,
+      parentId: entry.parentId,
+      prompt: entry.prompt,
+      createdAt: entry.createdAt,
+      result: await readBlob(entry.resultUrl),
+      references: entry.references,
+    }))),
+    currentVersionId: image.currentVersionId,
+    redoStack: image.redoStack,
+    mask: image.mask ? { image: dataUrlToBlob(image.mask.dataUrl), feather: image.mask.feather } : null,
+    preset: image.preset,
+    originalDimensions: image.originalDimensions,
+    qualityCheck: image.qualityCheck,
+    references: await Promise.all(image.references.map(async reference => ({
+      id: reference.id,
+      name: reference.name,
+      strength: reference.strength,
+      image: await readBlob(reference.imageUrl),
+    }))),
+  };
+};
+
+// Images come back as object URLs over the stored blobs; only the small mask is read into a data URL.
+const fromStoredImage = async (stored: StoredImage): Promise<ImageState> => {
+  const originalUrl = URL.createObjectURL(stored.original);
+  const history = stored.history.map(entry => ({
+    id: entry.id,
+    parentId: entry.parentId,
+    prompt: entry.prompt,
+    createdAt: entry.createdAt,
+    resultUrl: URL.createObjectURL(entry.result),
+    references: entry.references ?? [],
+  }));
+  const current = history.find(entry => entry.id === stored.currentVersionId);
+  const mask = stored.mask ? { dataUrl: await blobToDataUrl(stored.mask.image), feather: stored.mask.feather } : null;
+  return {
+    id: stored.id,
+    sourceName: stored.sourceName ?? 'image',
+    displayOriginalImageUrl: originalUrl,
+    latestProcessedImageUrl: current ? current.resultUrl : null,
+    prompt: stored.prompt,
+    isLoading: false,
+    isProcessed: stored.isProcessed,
+    error: typeof stored.error === 'string'
+      ? { kind: 'unknown', message: stored.error, retryable: false, diagnostics: {} }
+      : stored.error,
+    history,
+    currentVersionId: current ? current.id : null,
+    redoStack: stored.redoStack,
+    mask,
+    preset: stored.preset ?? null,
+    originalDimensions: stored.originalDimensions ?? null,
+    progressMessage: null,
+    qualityCheck: stored.qualityCheck ?? null,
+    variants: null,
+    references: (stored.references ?? []).map(reference => ({
+      id: reference.id,
+      name: reference.name,
+      strength: reference.strength,
+      imageUrl: URL.createObjectURL(reference.image),
+    })),
+  };
+};
+
+export const loadWorkspace = async (): Promise<ImageState[]> => {
+  const stored = await runTransaction<StoredImage[]>('readonly', store => store.getAll() as IDBRequest<StoredImage[]>);
+  const sorted = (stored ?? []).sort((a, b) => a.position - b.position);
+  return Promise.all(sorted.map(fromStoredImage));
+};
+
+// Writes to one image run in order, so a slow save can never overwrite a newer one or bring an
+// image back after it was deleted.
+const writeQueues = new Map<string, Promise<void>>();
+// Latest state waiting for a queued save that has not started yet; later saves just replace it.
+const pendingSaves = new Map<string, { image: ImageState; position: number }>();
+
+const enqueueWrite = (id: string, write: () => Promise<void>): Promise<void> => {
+  const queued = (writeQueues.get(id) ?? Promise.resolve()).catch(() => {}).then(write);
+  writeQueues.set(id, queued);
+  const release = () => { if (writeQueues.get(id) === queued) writeQueues.delete(id); };
+  queued.then(release, release);
+  return queued;
+};
+
+export const saveImage = (image: ImageState, position: number): Promise<void> => {
+  const isQueued = pendingSaves.has(image.id);
+  pendingSaves.set(image.id, { image, position });
+  if (isQueued) return writeQueues.get(image.id)!;
+  return enqueueWrite(image.id, async () => {
+    const pending = pendingSaves.get(image.id);
+    pendingSaves.delete(image.id);
+    if (!pending) return;
+    const record = await toStoredImage(pending.image, pending.position);
+    await runTransaction('readwrite', store => { store.put(record); });
+  });
+};
+
+export const deleteImage = (id: string): Promise<void> => {
+  pendingSaves.delete(id);
+  return enqueueWrite(id, async () => {
+    blobCache.delete(id);
+    await runTransaction('readwrite', store => { store.delete(id); });
+  });
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+  pendingSaves.clear();
+  await Promise.all(Array.from(writeQueues.values(), write => write.catch(() => {})));
+  blobCache.clear();
+  await runTransaction('readwrite', store => { store.clear(); });
+};
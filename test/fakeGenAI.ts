@@ -0,0 +1,40 @@
+import { vi } from 'vitest';
+
+// Stand-in for `@google/genai`: every client shares one `generateContent` mock, so tests
+// script responses with `generateContent.mockResolvedValueOnce(...)`.
+// Usage: vi.mock('@google/genai', () => import('../test/fakeGenAI'));
+export const generateContent = vi.fn();
+
+export class GoogleGenAI {
+  models = { generateContent };
+  constructor(_options: { apiKey: string }) {}
+}
+
+export class ApiError extends Error {
+  status: number;
+  constructor({ message, status }: { message: string; status: number }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export const Modality = { TEXT: 'TEXT', IMAGE: 'IMAGE' };
+
+export const RESULT_BASE64 = btoa('cleaned image');
+
+export const imageResponse = (overrides: Record<string, unknown> = {}) => ({
+  responseId: 'response-1',
+  candidates: [{
+    content: { parts: [{ inlineData: { data: RESULT_BASE64, mimeType: 'image/png' } }] },
+    finishReason: 'STOP',
+  }],
+  usageMetadata: { promptTokenCount: 1290, candidatesTokenCount: 1290, totalTokenCount: 2580 },
+  ...overrides,
+});
+
+export const textOnlyResponse = (text: string, finishReason = 'STOP') => ({
+  responseId: 'response-2',
+  candidates: [{ content: { parts: [{ text }] }, finishReason }],
+  usageMetadata: { promptTokenCount: 1290, candidatesTokenCount: 12, totalTokenCount: 1302 },
+});
@@ -0,0 +1,22 @@
+// jsdom has no object URLs. These keep the blobs in a map so a mocked fetch can serve
+// `blob:` URLs the way a browser would.
+const objectUrls = new Map<string, Blob>();
+let nextObjectUrl = 0;
+
+export const installObjectUrls = (): void => {
+  URL.createObjectURL = (blob: Blob | MediaSource): string => {
+    const url = `blob:test/${++nextObjectUrl}`;
+    objectUrls.set(url, blob as Blob);
+    return url;
+  };
+  URL.revokeObjectURL = (url: string): void => {
+    objectUrls.delete(url);
+  };
+};
+
+// Hands back the stored blob itself: a real Response would convert it to Node's Blob, which
+// jsdom's FileReader does not accept.
+export const fetchObjectUrl = (url: string): Response | null => {
+  const blob = objectUrls.get(url);
+  return blob ? { ok: true, status: 200, blob: async () => blob } as Response : null;
+};
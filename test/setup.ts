@@ -0,0 +1,18 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installObjectUrls } from './objectUrls';
+
+installObjectUrls();
+
+// Layout APIs jsdom does not implement; the gallery and editor only need them to exist.
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+Element.prototype.scrollIntoView ??= () => {};
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,78 @@
+import type { ImageErrorInfo } from './services/imageEditErrors';
+import type { ReferenceStrength } from './services/imageEditProvider';
+import type { QualityCheckResult } from './services/qualityCheck';
+import type { ImageDimensions } from './utils/imagePreprocessing';
+import type { MaskState } from './utils/maskUtils';
+import type { PresetSelection } from './utils/presets';
+
+// A style reference attached to an image. The image is an object URL owned by that image,
+// copied when taken from another image in the batch so removing either leaves the other intact.
+export interface StyleReference {
+  id: string;
+  name: string;
+  imageUrl: string;
+  strength: ReferenceStrength;
+}
+
+export interface ReferenceRecord {
+  name: string;
+  strength: ReferenceStrength;
+}
+
+export interface HistoryEntry {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  resultUrl: string;
+  createdAt: number;
+  // Style references the result was generated with, in prompt order.
+  references: ReferenceRecord[];
+}
+
+export interface VariantCandidate {
+  id: string;
+  // Object URL of the result; null while the request runs or when it failed.
+  resultUrl: string | null;
+  error: ImageErrorInfo | null;
+  // Version created when this candidate was promoted.
+  versionId: string | null;
+}
+
+// One clean or refinement generated several times, waiting for the user to pick a result.
+// Nothing is added to the history until a candidate is promoted.
+export interface VariantSet {
+  kind: 'clean' | 'refine';
+  prompt: string;
+  // Version the variants were generated from; null when cleaning the original.
+  parentId: string | null;
+  references: ReferenceRecord[];
+  candidates: VariantCandidate[];
+}
+
+export interface ImageState {
+  id: string;
+  sourceName: string;
+  // Object URLs (see toObjectUrl), released when the image is removed.
+  displayOriginalImageUrl: string;
+  latestProcessedImageUrl: string | null;
+  prompt: string;
+  isLoading: boolean;
+  isProcessed: boolean;
+  error: ImageErrorInfo | null;
+  history: HistoryEntry[];
+  currentVersionId: string | null;
+  redoStack: string[];
+  mask: MaskState | null;
+  // Overrides the batch preset for this image when set.
+  preset: PresetSelection | null;
+  // Upright size of the source before it was downscaled for the model.
+  originalDimensions: ImageDimensions | null;
+  // Transient status shown while a long job runs, e.g. tile progress. Not persisted.
+  progressMessage: string | null;
+  // Result of the last leftover check, if one has run.
+  qualityCheck: QualityCheckResult | null;
+  // Used by cleaning and refinement until removed.
+  references: StyleReference[];
+  // Candidates of the last multi-variant request. Not persisted.
+  variants: VariantSet | null;
+}
@@ -0,0 +1,25 @@
+import { DEFAULT_EXPORT_OPTIONS, renderExportImage } from './exportUtils';
+import { isSupportedImageFile, parseUrlList } from './fileUtils';
+
+export interface PastedContent {
+  files: File[];
+  urls: string[];
+}
+
+// Pasted image data wins; otherwise each pasted line that is an http(s) URL is taken as an image URL.
+export const readPastedContent = (data: DataTransfer): PastedContent => {
+  const files = (Array.from(data.files) as File[]).filter(isSupportedImageFile);
+  if (files.length > 0) return { files, urls: [] };
+  const urls = parseUrlList(data.getData('text/plain')).filter(line => /^https?:\/\/\S+$/i.test(line));
+  return { files: [], urls };
+};
+
+// Browsers only take PNG images on the clipboard, so the result is re-encoded. The blob is handed
+// over as a promise so Safari still counts the write as part of the user's click or key press.
+export const copyImageToClipboard = async (imageUrl: string): Promise<void> => {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+    throw new Error('Copying images to the clipboard is not supported in this browser.');
+  }
+  const png = renderExportImage(imageUrl, { ...DEFAULT_EXPORT_OPTIONS, format: 'png' });
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
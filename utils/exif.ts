@@ -0,0 +1,72 @@
+const ORIENTATION_TAG = 0x0112;
+
+interface SegmentRange {
+  start: number;
+  end: number;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Locates the APP1 "Exif" segment (marker included) of a JPEG file.
+const findExifSegment = (bytes: Uint8Array): SegmentRange | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) return null; // start of scan: no more metadata segments
+    const size = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+      return { start: offset, end: Math.min(bytes.length, offset + 2 + size) };
+    }
+    offset += 2 + size;
+  }
+  return null;
+};
+
+// Returns the byte offset of the orientation value inside `bytes`, or -1 if there is none.
+const findOrientationOffset = (bytes: Uint8Array, segment: SegmentRange): number => {
+  const tiff = segment.start + 10;
+  if (tiff + 8 > segment.end) return -1;
+  const littleEndian = bytes[tiff] === 0x49;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd0 + 2 > segment.end) return -1;
+  const count = view.getUint16(ifd0, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > segment.end) return -1;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) return entry + 8;
+  }
+  return -1;
+};
+
+// EXIF orientation (1–8) of a JPEG file; 1 when absent or unreadable.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const segment = findExifSegment(bytes);
+  if (!segment) return 1;
+  const offset = findOrientationOffset(bytes, segment);
+  if (offset === -1) return 1;
+  const littleEndian = bytes[segment.start + 10] === 0x49;
+  const value = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(offset, littleEndian);
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+// Copies the EXIF segment from `source` into `target` (both JPEG). The orientation is reset to 1
+// because `target` has already been rotated upright.
+export const transplantExif = (source: Uint8Array, target: Uint8Array): Uint8Array => {
+  const segment = findExifSegment(source);
+  if (!segment || target[0] !== 0xff || target[1] !== 0xd8) return target;
+  const exif = source.slice(segment.start, segment.end);
+  const orientationOffset = findOrientationOffset(source, segment);
+  if (orientationOffset !== -1) {
+    const littleEndian = source[segment.start + 10] === 0x49;
+    new DataView(exif.buffer).setUint16(orientationOffset - segment.start, 1, littleEndian);
+  }
+  const output = new Uint8Array(target.length + exif.length);
+  output.set(target.subarray(0, 2), 0);
+  output.set(exif, 2);
+  output.set(target.subarray(2), 2 + exif.length);
+  return output;
+};
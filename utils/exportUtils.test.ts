@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ImageState } from '../types';
+import { buildExportFileName, DEFAULT_EXPORT_OPTIONS, downloadBlob, exportImagesAsZip } from './exportUtils';
+import { readZip } from './zip';
+
+// jsdom decodes no images and has no 2D canvas; export only needs the size and a blob back.
+vi.mock('./maskUtils', () => ({
+  loadImage: async () => ({ naturalWidth: 4, naturalHeight: 3 }),
+}));
+
+const image = (id: string, processed: boolean): ImageState => ({
+  id,
+  sourceName: `${id}.jpg`,
+  displayOriginalImageUrl: `blob:test/${id}-original`,
+  latestProcessedImageUrl: processed ? `blob:test/${id}-result` : null,
+  prompt: '',
+  isLoading: false,
+  isProcessed: processed,
+  error: null,
+  history: [],
+  currentVersionId: null,
+  redoStack: [],
+  mask: null,
+  preset: null,
+  originalDimensions: null,
+  progressMessage: null,
+  qualityCheck: null,
+  references: [],
+  variants: null,
+});
+
+const readBlob = (blob: Blob): Promise<Uint8Array> => new Promise(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.readAsArrayBuffer(blob);
+});
+
+const options = { ...DEFAULT_EXPORT_OPTIONS, fileNamePattern: '{index}-{name}' };
+
+describe('exportImagesAsZip', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: () => {} } as unknown as CanvasRenderingContext2D);
+    // jsdom's Blob has no arrayBuffer(), which the ZIP writer reads the rendered image with.
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => callback({ arrayBuffer: async () => new ArrayBuffer(3) } as Blob));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('numbers files by their position among all images, as a single export does', async () => {
+    const images = [image('a', false), image('b', true), image('c', true)];
+
+    const zip = await exportImagesAsZip(images, options, ['c']);
+    const names = readZip(await readBlob(zip)).map(entry => entry.name);
+
+    expect(names).toEqual(['003-c.png', 'manifest.json']);
+    expect(buildExportFileName(images[2], 2, options)).toBe('003-c.png');
+  });
+
+  it('refuses to export when no image has a result yet', async () => {
+    await expect(exportImagesAsZip([image('a', false)], options)).rejects.toThrow('no processed images');
+  });
+});
+
+describe('downloadBlob', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the object URL alive until the browser has had time to read it', () => {
+    vi.useFakeTimers();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+
+    downloadBlob(new Blob(['zip']), 'images.zip');
+
+    expect(revoke).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,177 @@
+import type { ImageState } from '../types';
+import { getVersionChain } from './history';
+import { dataUrlToBlob } from './fileUtils';
+import { loadImage } from './maskUtils';
+import type { ImageDimensions } from './imagePreprocessing';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0–1, ignored for PNG.
+  quality: number;
+  // When set, the image is scaled to fit inside these bounds, keeping its aspect ratio.
+  maxWidth: number | null;
+  maxHeight: number | null;
+  // Scale the result back up to the source's original resolution before applying the bounds above.
+  upscaleToSource: boolean;
+  // Supports {name}, {index}, {date} and {version}.
+  fileNamePattern: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  maxWidth: null,
+  maxHeight: null,
+  upscaleToSource: false,
+  fileNamePattern: '{name}-clean',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^./]+$/, '');
+
+const sanitizeFileName = (fileName: string): string =>
+  fileName.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/^\.+/, '').trim() || 'image';
+
+// `index` is the image's position in the session, so `{index}` names a file the same whether it
+// was downloaded on its own or in a ZIP.
+export const buildExportFileName = (
+  image: ImageState,
+  index: number,
+  options: ExportOptions
+): string => {
+  const chain = getVersionChain(image);
+  const baseName = options.fileNamePattern
+    .replace(/\{name\}/g, stripExtension(image.sourceName))
+    .replace(/\{index\}/g, String(index + 1).padStart(3, '0'))
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/\{version\}/g, `v${chain.length}`);
+  return `${sanitizeFileName(baseName)}.${EXTENSIONS[options.format]}`;
+};
+
+export const renderExportImage = async (
+  dataUrl: string,
+  options: ExportOptions,
+  sourceDimensions: ImageDimensions | null = null
+): Promise<Blob> => {
+  const img = await loadImage(dataUrl);
+  // Upscaling keeps the result's own aspect ratio. After a canvas extension only one side has
+  // grown, so the larger of the two factors is the one the original content was reduced by.
+  const upscale = options.upscaleToSource && sourceDimensions
+    ? Math.max(1, sourceDimensions.width / img.naturalWidth, sourceDimensions.height / img.naturalHeight)
+    : 1;
+  const base = { width: img.naturalWidth * upscale, height: img.naturalHeight * upscale };
+  const scale = Math.min(
+    1,
+    options.maxWidth ? options.maxWidth / base.width : 1,
+    options.maxHeight ? options.maxHeight / base.height : 1
+  );
+  const width = Math.max(1, Math.round(base.width * scale));
+  const height = Math.max(1, Math.round(base.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D rendering is not supported in this browser.");
+  }
+  if (options.format === 'jpeg') {
+    // JPEG has no alpha channel; flatten onto white rather than black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, MIME_TYPES[options.format], options.quality));
+  return blob ?? dataUrlToBlob(canvas.toDataURL(MIME_TYPES[options.format], options.quality));
+};
+
+// Some browsers start reading the blob only after click() returns, so the URL outlives it briefly.
+const DOWNLOAD_URL_LIFETIME_MS = 30_000;
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+export const exportImage = async (image: ImageState, index: number, options: ExportOptions): Promise<void> => {
+  if (!image.latestProcessedImageUrl) {
+    throw new Error("This image has not been processed yet.");
+  }
+  const blob = await renderExportImage(image.latestProcessedImageUrl, options, image.originalDimensions);
+  downloadBlob(blob, buildExportFileName(image, index, options));
+};
+
+const makeUnique = (fileName: string, used: Set<string>): string => {
+  let candidate = fileName;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = fileName.replace(/(\.[^.]+)$/, `-${n}$1`);
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// Exports the processed images among `images` (all of the session's images, in order), limited
+// to `ids` when given.
+export const exportImagesAsZip = async (images: ImageState[], options: ExportOptions, ids?: string[]): Promise<Blob> => {
+  const processed = images.flatMap((image, index) =>
+    image.latestProcessedImageUrl && (!ids || ids.includes(image.id)) ? [{ image, index }] : []);
+  if (processed.length === 0) {
+    throw new Error("There are no processed images to export.");
+  }
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+
+  for (const { image, index } of processed) {
+    const blob = await renderExportImage(image.latestProcessedImageUrl!, options, image.originalDimensions);
+    const fileName = makeUnique(buildExportFileName(image, index, options), usedNames);
+    entries.push({ name: fileName, data: new Uint8Array(await blob.arrayBuffer()) });
+    manifest.push({
+      file: fileName,
+      source: image.sourceName,
+      prompts: getVersionChain(image).map(entry => ({
+        prompt: entry.prompt,
+        references: entry.references,
+        createdAt: new Date(entry.createdAt).toISOString(),
+      })),
+    });
+  }
+
+  entries.push({
+    name: 'manifest.json',
+    data: new TextEncoder().encode(JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      format: options.format,
+      quality: options.format === 'png' ? null : options.quality,
+      maxWidth: options.maxWidth,
+      maxHeight: options.maxHeight,
+      upscaleToSource: options.upscaleToSource,
+      images: manifest,
+    }, null, 2)),
+  });
+
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
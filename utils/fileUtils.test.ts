@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { blobToDataUrl, dataUrlToBlob, dataUrlToInfo, fileToInfo, imageUrlToInfo, toObjectUrl, urlToInfo } from './fileUtils';
+import type { UrlFetchOptions } from './fileUtils';
+import { fetchObjectUrl } from '../test/objectUrls';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const PNG_DATA_URL = `data:image/png;base64,${btoa(String.fromCharCode(...PNG_BYTES))}`;
+
+const FETCH_OPTIONS: UrlFetchOptions = { maxBytes: 1024, timeoutMs: 1000, proxyUrl: null, allowPublicProxy: false };
+
+describe('dataUrlToInfo', () => {
+  it('splits a base64 data URL into MIME type and data', () => {
+    expect(dataUrlToInfo('data:image/jpeg;base64,/9j/4AAQ')).toEqual({ mimeType: 'image/jpeg', base64: '/9j/4AAQ' });
+  });
+
+  it('keeps MIME type parameters and empty payloads', () => {
+    expect(dataUrlToInfo('data:image/svg+xml;base64,')).toEqual({ mimeType: 'image/svg+xml', base64: '' });
+  });
+
+  it.each([
+    ['a plain URL', 'https://example.com/photo.png'],
+    ['a data URL without base64', 'data:image/png,rawdata'],
+    ['a data URL without a type', 'data:;base64,AAAA'],
+    ['an empty string', ''],
+  ])('rejects %s', (_, value) => {
+    expect(() => dataUrlToInfo(value)).toThrow('Invalid data URL format');
+  });
+
+  it('round-trips through a Blob', async () => {
+    const blob = dataUrlToBlob(PNG_DATA_URL);
+    expect(blob.type).toBe('image/png');
+    expect(blob.size).toBe(PNG_BYTES.length);
+    await expect(blobToDataUrl(blob)).resolves.toBe(PNG_DATA_URL);
+  });
+});
+
+describe('fileToInfo', () => {
+  it('reads an image file', async () => {
+    const file = new File([PNG_BYTES], 'photo.png', { type: 'image/png' });
+    await expect(fileToInfo(file)).resolves.toEqual({
+      base64: PNG_DATA_URL.split(',')[1],
+      mimeType: 'image/png',
+      dataUrl: PNG_DATA_URL,
+    });
+  });
+
+  it('rejects files that are not images', async () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+    await expect(fileToInfo(file)).rejects.toThrow('Invalid file type. Please upload an image.');
+  });
+
+  it('reports read failures', async () => {
+    vi.stubGlobal('FileReader', class {
+      onloadend: (() => void) | null = null;
+      onerror: ((error: unknown) => void) | null = null;
+      readAsDataURL() {
+        setTimeout(() => this.onerror?.('disk error'));
+      }
+    });
+    const file = new File([PNG_BYTES], 'photo.png', { type: 'image/png' });
+    await expect(fileToInfo(file)).rejects.toThrow('An error occurred while reading the image file: disk error');
+  });
+
+  it('reports an empty read result', async () => {
+    vi.stubGlobal('FileReader', class {
+      result = null;
+      onloadend: (() => void) | null = null;
+      readAsDataURL() {
+        setTimeout(() => this.onloadend?.());
+      }
+    });
+    const file = new File([PNG_BYTES], 'photo.png', { type: 'image/png' });
+    await expect(fileToInfo(file)).rejects.toThrow('Failed to read the image file data.');
+  });
+});
+
+describe('urlToInfo', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('fetches the image and sniffs its type from the bytes', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(PNG_BYTES, { headers: { 'Content-Type': 'application/octet-stream' } }));
+
+    const info = await urlToInfo('https://example.com/photo', FETCH_OPTIONS);
+
+    expect(info.mimeType).toBe('image/png');
+    expect(info.dataUrl).toBe(PNG_DATA_URL);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/photo');
+  });
+
+  it.each([
+    ['an invalid URL', 'not a url', 'is not a valid URL'],
+    ['a non-http scheme', 'file:///etc/passwd', 'Only http and https image URLs are supported.'],
+    ['embedded credentials', 'https://user:pw@example.com/a.png', 'must not contain credentials'],
+    ['a private address', 'http://192.168.1.10/a.png', 'local or private network addresses'],
+    ['localhost', 'http://localhost:3000/a.png', 'local or private network addresses'],
+  ])('rejects %s without fetching', async (_, url, message) => {
+    await expect(urlToInfo(url, FETCH_OPTIONS)).rejects.toThrow(message);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports HTTP errors with the status', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('missing', { status: 404, statusText: 'Not Found' }));
+
+    await expect(urlToInfo('https://example.com/a.png', FETCH_OPTIONS)).rejects.toThrow('status: 404 Not Found');
+  });
+
+  it('rejects responses that are not images', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('<html></html>'));
+
+    await expect(urlToInfo('https://example.com/a.png', FETCH_OPTIONS)).rejects.toThrow('did not point to a valid image');
+  });
+
+  it('enforces the size limit from Content-Length', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(PNG_BYTES, { headers: { 'Content-Length': '4096' } }));
+
+    await expect(urlToInfo('https://example.com/a.png', FETCH_OPTIONS)).rejects.toThrow('larger than the 0 MB limit');
+  });
+
+  it('enforces the size limit while streaming', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(new Uint8Array(2048)));
+
+    await expect(urlToInfo('https://example.com/a.png', FETCH_OPTIONS)).rejects.toThrow('limit');
+  });
+
+  it('explains likely CORS failures when there is no proxy to fall back to', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await expect(urlToInfo('https://example.com/a.png', FETCH_OPTIONS))
+      .rejects.toThrow('Fetching the image failed. The host may not allow cross-origin requests');
+  });
+
+  it('falls back to the configured proxy when the direct fetch fails', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(PNG_BYTES));
+
+    const info = await urlToInfo('https://example.com/a b.png', { ...FETCH_OPTIONS, proxyUrl: '/api/fetch-image' });
+
+    expect(info.mimeType).toBe('image/png');
+    expect(fetchMock.mock.calls[1][0]).toBe(`/api/fetch-image?url=${encodeURIComponent('https://example.com/a%20b.png')}`);
+  });
+
+  it('does not fall back after an HTTP error', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 403, statusText: 'Forbidden' }));
+
+    await expect(urlToInfo('https://example.com/a.png', { ...FETCH_OPTIONS, proxyUrl: '/api/fetch-image' })).rejects.toThrow('403');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('imageUrlToInfo', () => {
+  it('reads object URLs back into base64', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => fetchObjectUrl(url)!));
+    const objectUrl = toObjectUrl(PNG_DATA_URL);
+
+    expect(objectUrl).toMatch(/^blob:/);
+    await expect(imageUrlToInfo(objectUrl)).resolves.toEqual(dataUrlToInfo(PNG_DATA_URL));
+  });
+});
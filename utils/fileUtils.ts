@@ -1,8 +1,15 @@
+import { sniffImageMimeType } from './imageSniffing';
+import { assertPublicHttpUrl } from './urlSafety';
+
+// Some browsers report an empty type for HEIC and TIFF files, so fall back to the extension.
+export const isSupportedImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || /\.(heic|heif|tiff?)$/i.test(file.name);
+
 export const fileToInfo = (
   file: File
 ): Promise<{ base64: string; mimeType: string; dataUrl: string }> => {
   return new Promise((resolve, reject) => {
-    if (!file.type.startsWith('image/')) {
+    if (!isSupportedImageFile(file)) {
       return reject(new Error("Invalid file type. Please upload an image."));
     }
 
@@ -20,49 +27,107 @@ export const fileToInfo = (
   });
 };
 
-export const urlToInfo = async (
-  url: string
-): Promise<{ base64: string; mimeType: string; dataUrl: string }> => {
-  // Use a CORS proxy to bypass browser security restrictions.
-  const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(url)}`;
+export interface UrlFetchOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  // Self-hosted fetch route (see `server/`), tried when the direct CORS fetch fails.
+  proxyUrl: string | null;
+  // The public corsproxy.io service leaks URLs to a third party, so it is opt-in only.
+  allowPublicProxy: boolean;
+}
+
+const imageServerUrl = process.env.IMAGE_PROXY_URL;
+
+export const DEFAULT_URL_FETCH_OPTIONS: UrlFetchOptions = {
+  maxBytes: 20 * 1024 * 1024,
+  timeoutMs: 15000,
+  proxyUrl: process.env.URL_FETCH_PROXY || (imageServerUrl ? `${imageServerUrl.replace(/\/$/, '')}/fetch-image` : null),
+  allowPublicProxy: process.env.ALLOW_PUBLIC_CORS_PROXY === '1',
+};
 
+class FetchFallbackError extends Error {}
+
+const fetchBytes = async (url: string, options: UrlFetchOptions): Promise<Uint8Array> => {
+  let response: Response;
   try {
-    const response = await fetch(proxyUrl);
+    response = await fetch(url, { signal: AbortSignal.timeout(options.timeoutMs) });
+  } catch (error) {
+    // CORS rejections and timeouts are indistinguishable from network errors here, so try the next route.
+    const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : 'failed';
+    throw new FetchFallbackError(`Fetching the image ${reason}.`);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image. The server responded with status: ${response.status} ${response.statusText}. Please ensure the URL is correct and the image is publicly accessible.`);
-    }
-    
-    const mimeType = response.headers.get('Content-Type');
-    if (!mimeType || !mimeType.startsWith('image/')) {
-      throw new Error('The URL did not point to a valid image. Please check the URL and try again.');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image. The server responded with status: ${response.status} ${response.statusText}. Please ensure the URL is correct and the image is publicly accessible.`);
+  }
+  if (Number(response.headers.get('Content-Length')) > options.maxBytes) {
+    throw new Error(`The image is larger than the ${Math.round(options.maxBytes / (1024 * 1024))} MB limit.`);
+  }
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > options.maxBytes) {
+      await reader.cancel();
+      throw new Error(`The image is larger than the ${Math.round(options.maxBytes / (1024 * 1024))} MB limit.`);
     }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
 
-    const blob = await response.blob();
-
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(blob);
-      reader.onloadend = () => {
-        const dataUrl = reader.result as string;
-        if (!dataUrl) {
-            return reject(new Error("Failed to read the downloaded image data."));
-        }
-        const base64 = dataUrl.split(',')[1];
-        resolve({ base64, mimeType, dataUrl });
-      };
-      reader.onerror = (error) => reject(new Error(`An error occurred while reading the image file: ${error}`));
-    });
-  } catch (error) {
-    console.error("Error fetching or converting image from URL:", error);
-     if (error instanceof TypeError) {
-      throw new Error("A network error occurred while fetching the image. This might be due to the proxy service or your connection. Please try again.");
+export const urlToInfo = async (
+  url: string,
+  options: UrlFetchOptions = DEFAULT_URL_FETCH_OPTIONS
+): Promise<{ base64: string; mimeType: string; dataUrl: string }> => {
+  const target = assertPublicHttpUrl(url).toString();
+  const routes = [
+    target,
+    ...(options.proxyUrl ? [`${options.proxyUrl}?url=${encodeURIComponent(target)}`] : []),
+    ...(options.allowPublicProxy ? [`https://corsproxy.io/?${encodeURIComponent(target)}`] : []),
+  ];
+
+  let bytes: Uint8Array | null = null;
+  let lastError: Error | null = null;
+  for (const route of routes) {
+    try {
+      bytes = await fetchBytes(route, options);
+      break;
+    } catch (error) {
+      if (!(error instanceof FetchFallbackError)) throw error;
+      lastError = error;
     }
-    // Rethrow other specific errors or a generic one
-    throw error instanceof Error ? error : new Error("An unknown error occurred while fetching the image.");
   }
+  if (!bytes) {
+    console.error("Error fetching image from URL:", lastError);
+    throw new Error(`${lastError?.message ?? 'Fetching the image failed.'} The host may not allow cross-origin requests; configure an image server proxy to load it.`);
+  }
+
+  const mimeType = sniffImageMimeType(bytes);
+  if (!mimeType) {
+    throw new Error('The URL did not point to a valid image. Please check the URL and try again.');
+  }
+  const dataUrl = await blobToDataUrl(new Blob([bytes], { type: mimeType }));
+  return { base64: dataUrl.split(',')[1], mimeType, dataUrl };
 };
 
+// Splits pasted text into one URL per non-empty line.
+export const parseUrlList = (text: string): string[] =>
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
 
 export const dataUrlToInfo = (dataUrl: string): { base64: string; mimeType: string } => {
   const match = dataUrl.match(/^data:(.+);base64,(.*)$/);
@@ -74,3 +139,61 @@ export const dataUrlToInfo = (dataUrl: string): { base64: string; mimeType: stri
   const base64 = match[2];
   return { base64, mimeType };
 };
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { base64, mimeType } = dataUrlToInfo(dataUrl);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      if (!dataUrl) {
+        return reject(new Error("Failed to read the stored image data."));
+      }
+      resolve(dataUrl);
+    };
+    reader.onerror = (error) => reject(new Error(`An error occurred while reading the stored image: ${error}`));
+  });
+};
+
+// Images are kept as object URLs so hundreds of them do not sit in memory as base64 strings.
+// Results from the model still arrive as data URLs and are converted on the way into state.
+export const toObjectUrl = (url: string): string =>
+  url.startsWith('data:') ? URL.createObjectURL(dataUrlToBlob(url)) : url;
+
+export const revokeObjectUrls = (urls: (string | null)[]): void => {
+  urls.forEach(url => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+};
+
+export const imageUrlToBlob = async (url: string): Promise<Blob> => {
+  if (url.startsWith('data:')) return dataUrlToBlob(url);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('The image data is no longer available.');
+  }
+  return response.blob();
+};
+
+// Accepts both data URLs and object URLs, for code that needs the bytes rather than an <img>.
+export const imageUrlToInfo = async (url: string): Promise<{ base64: string; mimeType: string }> =>
+  url.startsWith('data:') ? dataUrlToInfo(url) : dataUrlToInfo(await blobToDataUrl(await imageUrlToBlob(url)));
+
+export const fileNameFromUrl = (url: string): string => {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : 'image';
+  } catch {
+    return 'image';
+  }
+};
@@ -0,0 +1,43 @@
+// A directory reader returns its entries in batches and an empty batch once all have been listed.
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    const readBatch = () => reader.readEntries(batch => {
+      if (batch.length === 0) return resolve(entries);
+      entries.push(...batch);
+      readBatch();
+    }, reject);
+    readBatch();
+  });
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// Files come back in name order within each folder; hidden files such as .DS_Store are skipped.
+const walkEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.name.startsWith('.')) return [];
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+  const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+  const files: File[] = [];
+  for (const child of children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))) {
+    files.push(...await walkEntry(child));
+  }
+  return files;
+};
+
+// Expands dropped folders into the files inside them, recursively. The entries are taken from the
+// event before anything is awaited, as the browser empties the DataTransfer once the handler returns.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = (Array.from(dataTransfer.items ?? []) as DataTransferItem[])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files ?? []) as File[];
+  }
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...await walkEntry(entry!));
+  }
+  return files;
+};
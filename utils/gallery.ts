@@ -0,0 +1,45 @@
+import type { ImageState } from '../types';
+
+export type ImageStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export type StatusFilter = ImageStatus | 'all';
+
+export type GalleryViewMode = 'grid' | 'list';
+
+export const IMAGE_STATUSES: ImageStatus[] = ['pending', 'processing', 'done', 'error'];
+
+export const STATUS_LABELS: Record<StatusFilter, string> = {
+  all: 'All',
+  pending: 'Pending',
+  processing: 'Processing',
+  done: 'Done',
+  error: 'Error',
+};
+
+// A running job wins over an old error, and an error wins over an earlier successful result.
+export const getImageStatus = (image: ImageState): ImageStatus => {
+  if (image.isLoading) return 'processing';
+  if (image.error) return 'error';
+  return image.isProcessed ? 'done' : 'pending';
+};
+
+export const filterImagesByStatus = (images: ImageState[], filter: StatusFilter): ImageState[] =>
+  filter === 'all' ? images : images.filter(image => getImageStatus(image) === filter);
+
+export const countImagesByStatus = (images: ImageState[]): Record<StatusFilter, number> => {
+  const counts: Record<StatusFilter, number> = { all: images.length, pending: 0, processing: 0, done: 0, error: 0 };
+  images.forEach(image => counts[getImageStatus(image)]++);
+  return counts;
+};
+
+// Rows of a fixed-height virtual list that intersect the viewport, plus `overscan` rows either side.
+export const getVisibleRows = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 2
+): { start: number; end: number } => ({
+  start: Math.max(0, Math.floor(scrollTop / rowHeight) - overscan),
+  end: Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan),
+});
@@ -0,0 +1,84 @@
+import type { HistoryEntry, ImageState, ReferenceRecord } from '../types';
+
+export const getCurrentVersion = (image: ImageState): HistoryEntry | null =>
+  image.history.find(entry => entry.id === image.currentVersionId) ?? null;
+
+export const getVersionLabel = (image: ImageState, versionId: string): string =>
+  `v${image.history.findIndex(entry => entry.id === versionId) + 1}`;
+
+// Adds a new version as a child of `parentId` and makes it current. Refining from
+// an earlier version therefore starts a new branch rather than discarding later work.
+export const addVersion = (
+  image: ImageState,
+  resultUrl: string,
+  prompt: string,
+  parentId: string | null,
+  references: ReferenceRecord[] = []
+): ImageState => {
+  const entry: HistoryEntry = {
+    id: `${Date.now()}-${Math.random()}`,
+    parentId,
+    prompt,
+    resultUrl,
+    createdAt: Date.now(),
+    references,
+  };
+  return {
+    ...image,
+    history: [...image.history, entry],
+    currentVersionId: entry.id,
+    redoStack: [],
+    latestProcessedImageUrl: entry.resultUrl,
+  };
+};
+
+export const selectVersion = (image: ImageState, versionId: string): ImageState => {
+  const entry = image.history.find(e => e.id === versionId);
+  if (!entry || entry.id === image.currentVersionId) return image;
+  return {
+    ...image,
+    currentVersionId: entry.id,
+    redoStack: [],
+    latestProcessedImageUrl: entry.resultUrl,
+  };
+};
+
+export const canUndo = (image: ImageState): boolean => Boolean(getCurrentVersion(image)?.parentId);
+
+export const canRedo = (image: ImageState): boolean => image.redoStack.length > 0;
+
+export const undo = (image: ImageState): ImageState => {
+  const current = getCurrentVersion(image);
+  const parent = current?.parentId ? image.history.find(e => e.id === current.parentId) : undefined;
+  if (!current || !parent) return image;
+  return {
+    ...image,
+    currentVersionId: parent.id,
+    redoStack: [...image.redoStack, current.id],
+    latestProcessedImageUrl: parent.resultUrl,
+  };
+};
+
+export const redo = (image: ImageState): ImageState => {
+  const nextId = image.redoStack[image.redoStack.length - 1];
+  const next = image.history.find(e => e.id === nextId);
+  if (!next) return image;
+  return {
+    ...image,
+    currentVersionId: next.id,
+    redoStack: image.redoStack.slice(0, -1),
+    latestProcessedImageUrl: next.resultUrl,
+  };
+};
+
+// Returns the versions leading to the current one, oldest first.
+export const getVersionChain = (image: ImageState): HistoryEntry[] => {
+  const chain: HistoryEntry[] = [];
+  let entry = getCurrentVersion(image);
+  while (entry) {
+    chain.unshift(entry);
+    const parentId: string | null = entry.parentId;
+    entry = parentId ? image.history.find(e => e.id === parentId) ?? null : null;
+  }
+  return chain;
+};
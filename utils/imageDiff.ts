@@ -0,0 +1,55 @@
+import { loadImage } from './maskUtils';
+
+export interface DiffResult {
+  heatmapUrl: string;
+  // Fraction of pixels whose difference exceeds the threshold.
+  changedRatio: number;
+}
+
+// Maps a 0–1 intensity onto a blue → yellow → red ramp.
+const heatColor = (t: number): [number, number, number] => {
+  if (t < 0.5) {
+    const k = t / 0.5;
+    return [Math.round(255 * k), Math.round(255 * k), Math.round(255 * (1 - k))];
+  }
+  const k = (t - 0.5) / 0.5;
+  return [255, Math.round(255 * (1 - k)), 0];
+};
+
+// Compares the two images at the original's resolution and returns a transparent overlay in
+// which every pixel that changed by more than `threshold` (0–255, max channel delta) is coloured.
+export const computeDiffHeatmap = async (originalUrl: string, processedUrl: string, threshold = 8): Promise<DiffResult> => {
+  const [original, processed] = await Promise.all([loadImage(originalUrl), loadImage(processedUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Canvas 2D rendering is not supported in this browser.");
+  }
+  ctx.drawImage(original, 0, 0);
+  const a = ctx.getImageData(0, 0, width, height).data;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(processed, 0, 0, width, height);
+  const b = ctx.getImageData(0, 0, width, height).data;
+
+  const heatmap = ctx.createImageData(width, height);
+  const out = heatmap.data;
+  let changed = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const delta = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    if (delta <= threshold) continue;
+    changed++;
+    const [r, g, bl] = heatColor(delta / 255);
+    out[i] = r;
+    out[i + 1] = g;
+    out[i + 2] = bl;
+    out[i + 3] = 200;
+  }
+  ctx.putImageData(heatmap, 0, 0);
+
+  return { heatmapUrl: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
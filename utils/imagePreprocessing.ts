@@ -0,0 +1,120 @@
+import { readExifOrientation, transplantExif } from './exif';
+import { blobToDataUrl, dataUrlToInfo } from './fileUtils';
+import { sniffImageMimeType } from './imageSniffing';
+
+export interface PreprocessOptions {
+  // Images above this size are downscaled before they are sent to the model.
+  maxMegapixels: number;
+  // Carry EXIF metadata over to the re-encoded JPEG instead of stripping it.
+  keepMetadata: boolean;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PreprocessedImage {
+  base64: string;
+  mimeType: string;
+  dataUrl: string;
+  // Upright size of the source file before any downscaling.
+  originalDimensions: ImageDimensions;
+}
+
+// The larger sizes are meant for tiled processing, which keeps the full resolution.
+export const MEGAPIXEL_CHOICES = [4, 8, 12, 16, 24, 48, 100];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxMegapixels: 16,
+  keepMetadata: false,
+};
+
+// Formats both browsers and the model accept as-is; anything else is converted.
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const JPEG_QUALITY = 0.92;
+
+const decodeHeic = async (blob: Blob): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob, toType: 'image/jpeg', quality: JPEG_QUALITY });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+const decodeTiff = async (bytes: Uint8Array): Promise<ImageBitmap> => {
+  const UTIF = await import('utif');
+  const buffer = bytes.slice().buffer;
+  const [page] = UTIF.decode(buffer);
+  if (!page) {
+    throw new Error("The TIFF file contains no images.");
+  }
+  UTIF.decodeImage(buffer, page);
+  const rgba = new Uint8ClampedArray(UTIF.toRGBA8(page));
+  return createImageBitmap(new ImageData(rgba, page.width, page.height));
+};
+
+const decode = async (blob: Blob, bytes: Uint8Array, mimeType: string): Promise<ImageBitmap> => {
+  try {
+    if (mimeType === 'image/heic') return await createImageBitmap(await decodeHeic(blob));
+    if (mimeType === 'image/tiff') return await decodeTiff(bytes);
+    // Browsers apply EXIF orientation while decoding, so the bitmap is already upright.
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error("Error decoding image:", error);
+    throw new Error(`This ${mimeType.replace('image/', '').toUpperCase()} image could not be decoded in this browser.`);
+  }
+};
+
+const encode = (bitmap: ImageBitmap, width: number, height: number, mimeType: string): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D rendering is not supported in this browser.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode the image."))), mimeType, JPEG_QUALITY);
+  });
+};
+
+// Normalises an uploaded or downloaded image before it becomes an ImageState: bakes in EXIF
+// orientation, strips metadata, caps the pixel count and converts formats the model cannot take.
+export const preprocessImage = async (
+  blob: Blob,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessedImage> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const sourceType = sniffImageMimeType(bytes) ?? blob.type;
+  if (!sourceType.startsWith('image/')) {
+    throw new Error("Invalid file type. Please upload an image.");
+  }
+
+  const bitmap = await decode(blob, bytes, sourceType);
+  const originalDimensions = { width: bitmap.width, height: bitmap.height };
+  const maxPixels = options.maxMegapixels * 1_000_000;
+  const scale = Math.min(1, Math.sqrt(maxPixels / (bitmap.width * bitmap.height)));
+  const orientation = sourceType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+  const isPassthroughType = PASSTHROUGH_TYPES.includes(sourceType);
+
+  const needsReencode = !isPassthroughType || scale < 1 || orientation !== 1 || !options.keepMetadata;
+  if (!needsReencode) {
+    bitmap.close();
+    const dataUrl = await blobToDataUrl(new Blob([bytes], { type: sourceType }));
+    return { ...dataUrlToInfo(dataUrl), dataUrl, originalDimensions };
+  }
+
+  // Lossy sources stay JPEG; everything else becomes PNG so no transparency or detail is lost.
+  const outputType = sourceType === 'image/jpeg' || sourceType === 'image/heic' ? 'image/jpeg' : isPassthroughType ? sourceType : 'image/png';
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  let output = new Uint8Array(await (await encode(bitmap, width, height, outputType)).arrayBuffer());
+  bitmap.close();
+
+  if (options.keepMetadata && sourceType === 'image/jpeg' && outputType === 'image/jpeg') {
+    output = transplantExif(bytes, output);
+  }
+  const dataUrl = await blobToDataUrl(new Blob([output], { type: outputType }));
+  return { ...dataUrlToInfo(dataUrl), dataUrl, originalDimensions };
+};
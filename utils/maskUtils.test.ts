@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { blendMaskedPixels } from './maskUtils';
+
+// One RGBA row of `width` pixels, all set to `pixel`.
+const row = (width: number, pixel: number[]) => new Uint8ClampedArray(Array.from({ length: width }, () => pixel).flat());
+const alphaRow = (alphas: number[]) => new Uint8ClampedArray(alphas.flatMap(alpha => [255, 255, 255, alpha]));
+const pixelAt = (pixels: Uint8ClampedArray, index: number) => Array.from(pixels.slice(index * 4, index * 4 + 4));
+
+describe('blendMaskedPixels', () => {
+  // Pixels 2 and 3 are painted; the blur spreads the mask one pixel to either side.
+  const painted = alphaRow([0, 0, 255, 255, 0, 0]);
+  const feathered = alphaRow([0, 64, 192, 192, 64, 0]);
+
+  it('leaves pixels just outside the painted mask unchanged even where the feather reaches', () => {
+    const base = row(6, [10, 20, 30, 255]);
+    const result = blendMaskedPixels(base, row(6, [200, 100, 50, 255]), feathered, painted);
+
+    expect(pixelAt(result, 1)).toEqual([10, 20, 30, 255]);
+    expect(pixelAt(result, 4)).toEqual([10, 20, 30, 255]);
+    expect(pixelAt(result, 0)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('softens the edit inside the mask by the feathered alpha', () => {
+    const base = row(6, [0, 0, 0, 255]);
+    const result = blendMaskedPixels(base, row(6, [255, 255, 255, 255]), feathered, painted);
+
+    expect(pixelAt(result, 2)).toEqual([192, 192, 192, 255]);
+    expect(pixelAt(result, 3)).toEqual([192, 192, 192, 255]);
+  });
+});
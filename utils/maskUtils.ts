@@ -0,0 +1,136 @@
+import { dataUrlToInfo } from './fileUtils';
+
+export interface MaskState {
+  // Painted region as a PNG data URL; any pixel with alpha > 0 is part of the mask.
+  dataUrl: string;
+  feather: number;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode the image."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D rendering is not supported in this browser.");
+  }
+  return [canvas, ctx];
+};
+
+// Renders the mask as an alpha channel at the given size, softening its edges by `feather` pixels.
+export const renderFeatheredMask = async (mask: MaskState, width: number, height: number): Promise<HTMLCanvasElement> => {
+  const maskImage = await loadImage(mask.dataUrl);
+  const [canvas, ctx] = createCanvas(width, height);
+  if (mask.feather > 0) {
+    ctx.filter = `blur(${mask.feather}px)`;
+  }
+  ctx.drawImage(maskImage, 0, 0, width, height);
+  return canvas;
+};
+
+// Converts the mask to the opaque black-and-white image sent to the model: white marks the area to edit.
+export const maskToModelImage = async (mask: MaskState, width: number, height: number): Promise<{ base64: string; mimeType: string }> => {
+  const alpha = await renderFeatheredMask(mask, width, height);
+  const alphaCtx = alpha.getContext('2d')!;
+  alphaCtx.filter = 'none';
+  alphaCtx.globalCompositeOperation = 'source-in';
+  alphaCtx.fillStyle = '#ffffff';
+  alphaCtx.fillRect(0, 0, width, height);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(alpha, 0, 0);
+  return dataUrlToInfo(canvas.toDataURL('image/png'));
+};
+
+// Blends edited pixels into base pixels (both RGBA, in place) through the feathered mask. The
+// feathered alpha is clamped to the painted mask, so feathering only softens the edge inwards and
+// every pixel outside the painted area keeps its exact base value.
+export const blendMaskedPixels = (
+  base: Uint8ClampedArray,
+  edited: Uint8ClampedArray,
+  feathered: Uint8ClampedArray,
+  painted: Uint8ClampedArray
+): Uint8ClampedArray => {
+  for (let i = 0; i < base.length; i += 4) {
+    const alpha = Math.min(feathered[i + 3], painted[i + 3]) / 255;
+    if (alpha === 0) continue;
+    for (let channel = i; channel < i + 4; channel++) {
+      base[channel] += (edited[channel] - base[channel]) * alpha;
+    }
+  }
+  return base;
+};
+
+// Blends the edited image into the base image through the mask, so pixels outside the mask
+// keep their exact original values whatever the model did to them.
+export const compositeMaskedEdit = async (baseUrl: string, editedUrl: string, mask: MaskState): Promise<string> => {
+  const [base, edited] = await Promise.all([loadImage(baseUrl), loadImage(editedUrl)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+  const readPixels = (canvas: HTMLCanvasElement) => canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+
+  const [editedLayer, editedCtx] = createCanvas(width, height);
+  editedCtx.drawImage(edited, 0, 0, width, height);
+  const [feathered, painted] = await Promise.all([
+    renderFeatheredMask(mask, width, height),
+    renderFeatheredMask({ ...mask, feather: 0 }, width, height),
+  ]);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  blendMaskedPixels(pixels.data, readPixels(editedLayer), readPixels(feathered), readPixels(painted));
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Cuts the region of a full-size mask that falls inside a tile. Returns null when the tile has no masked pixels.
+export const cropMask = async (
+  mask: MaskState,
+  fullWidth: number,
+  fullHeight: number,
+  region: { x: number; y: number; width: number; height: number }
+): Promise<MaskState | null> => {
+  const maskImage = await loadImage(mask.dataUrl);
+  const [canvas, ctx] = createCanvas(region.width, region.height);
+  ctx.drawImage(maskImage, -region.x, -region.y, fullWidth, fullHeight);
+  const pixels = ctx.getImageData(0, 0, region.width, region.height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] > 0) {
+      return { dataUrl: canvas.toDataURL('image/png'), feather: mask.feather };
+    }
+  }
+  return null;
+};
+
+// Builds a mask covering normalised (0–1) boxes, each grown by `padding` of the image size so
+// the edit also reaches the edges the detector tends to cut off.
+export const boxesToMask = async (
+  imageUrl: string,
+  boxes: { x: number; y: number; width: number; height: number }[],
+  padding = 0.02,
+  feather = 8
+): Promise<MaskState> => {
+  const image = await loadImage(imageUrl);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = '#ffffff';
+  boxes.forEach(box => {
+    const x = Math.max(0, box.x - padding) * width;
+    const y = Math.max(0, box.y - padding) * height;
+    ctx.fillRect(x, y, Math.min(1, box.x + box.width + padding) * width - x, Math.min(1, box.y + box.height + padding) * height - y);
+  });
+  return { dataUrl: canvas.toDataURL('image/png'), feather };
+};
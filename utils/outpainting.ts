@@ -0,0 +1,123 @@
+import { createCanvas, loadImage } from './maskUtils';
+import type { MaskState } from './maskUtils';
+import type { ImageDimensions } from './imagePreprocessing';
+
+export type CanvasAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// 'aspect' grows the canvas to the ratio without scaling the image; 'pixels' fits the image
+// inside an exact output size and extends the rest.
+export type CanvasTarget =
+  | { kind: 'aspect'; width: number; height: number }
+  | { kind: 'pixels'; width: number; height: number };
+
+export interface OutpaintPreset {
+  id: string;
+  label: string;
+  target: CanvasTarget;
+}
+
+export interface CanvasExtensionPlan {
+  width: number;
+  height: number;
+  // Where the original image is placed on the new canvas, and at what size.
+  offsetX: number;
+  offsetY: number;
+  contentWidth: number;
+  contentHeight: number;
+}
+
+export const CANVAS_ANCHORS: CanvasAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const OUTPAINT_PRESETS: OutpaintPreset[] = [
+  { id: 'banner-16-9', label: '16:9 banner / video', target: { kind: 'aspect', width: 16, height: 9 } },
+  { id: 'story-9-16', label: '9:16 story / reel', target: { kind: 'aspect', width: 9, height: 16 } },
+  { id: 'square-1-1', label: '1:1 post', target: { kind: 'aspect', width: 1, height: 1 } },
+  { id: 'portrait-4-5', label: '4:5 portrait post', target: { kind: 'aspect', width: 4, height: 5 } },
+  { id: 'photo-3-2', label: '3:2 photo', target: { kind: 'aspect', width: 3, height: 2 } },
+  { id: 'link-1-91', label: '1.91:1 link preview', target: { kind: 'aspect', width: 191, height: 100 } },
+  { id: 'og-image', label: 'Open Graph image (1200×630)', target: { kind: 'pixels', width: 1200, height: 630 } },
+  { id: 'youtube-thumbnail', label: 'YouTube thumbnail (1280×720)', target: { kind: 'pixels', width: 1280, height: 720 } },
+  { id: 'x-header', label: 'X / Twitter header (1500×500)', target: { kind: 'pixels', width: 1500, height: 500 } },
+  { id: 'linkedin-banner', label: 'LinkedIn banner (1584×396)', target: { kind: 'pixels', width: 1584, height: 396 } },
+  { id: 'web-hero', label: 'Web hero (1920×1080)', target: { kind: 'pixels', width: 1920, height: 1080 } },
+];
+
+export const describeCanvasTarget = (target: CanvasTarget): string =>
+  target.kind === 'aspect' ? `${target.width}:${target.height}` : `${target.width}×${target.height} px`;
+
+export const planCanvasExtension = (source: ImageDimensions, target: CanvasTarget, anchor: CanvasAnchor): CanvasExtensionPlan => {
+  let width: number;
+  let height: number;
+  let contentWidth = source.width;
+  let contentHeight = source.height;
+
+  if (target.kind === 'aspect') {
+    const ratio = target.width / target.height;
+    width = Math.round(Math.max(source.width, source.height * ratio));
+    height = Math.round(Math.max(source.height, source.width / ratio));
+  } else {
+    width = target.width;
+    height = target.height;
+    const scale = Math.min(width / source.width, height / source.height);
+    contentWidth = Math.round(source.width * scale);
+    contentHeight = Math.round(source.height * scale);
+  }
+
+  const horizontal = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5;
+  const vertical = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+  return {
+    width,
+    height,
+    offsetX: Math.round((width - contentWidth) * horizontal),
+    offsetY: Math.round((height - contentHeight) * vertical),
+    contentWidth,
+    contentHeight,
+  };
+};
+
+export const isCanvasUnchanged = (plan: CanvasExtensionPlan): boolean =>
+  plan.offsetX === 0 && plan.offsetY === 0 && plan.contentWidth === plan.width && plan.contentHeight === plan.height;
+
+// Builds the padded image sent to the model and a mask covering only the new regions. The padding
+// is a heavily blurred, stretched copy of the image, which gives the model colours to continue
+// from and avoids a hard frame around the original.
+export const buildExtendedCanvas = async (
+  imageUrl: string,
+  plan: CanvasExtensionPlan
+): Promise<{ paddedUrl: string; mask: MaskState }> => {
+  const image = await loadImage(imageUrl);
+  const [padded, paddedCtx] = createCanvas(plan.width, plan.height);
+  paddedCtx.filter = 'blur(40px)';
+  paddedCtx.drawImage(image, 0, 0, plan.width, plan.height);
+  paddedCtx.filter = 'none';
+  paddedCtx.drawImage(image, plan.offsetX, plan.offsetY, plan.contentWidth, plan.contentHeight);
+
+  const [mask, maskCtx] = createCanvas(plan.width, plan.height);
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, plan.width, plan.height);
+  maskCtx.clearRect(plan.offsetX, plan.offsetY, plan.contentWidth, plan.contentHeight);
+
+  // No feathering: a soft mask edge would let the blurred padding show through the result.
+  return { paddedUrl: padded.toDataURL('image/png'), mask: { dataUrl: mask.toDataURL('image/png'), feather: 0 } };
+};
+
+// Draws the untouched original back over the model's result so the centre is pixel-identical.
+export const compositeOriginalContent = async (
+  extendedUrl: string,
+  originalUrl: string,
+  plan: CanvasExtensionPlan
+): Promise<string> => {
+  const [extended, original] = await Promise.all([loadImage(extendedUrl), loadImage(originalUrl)]);
+  const [canvas, ctx] = createCanvas(plan.width, plan.height);
+  ctx.drawImage(extended, 0, 0, plan.width, plan.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(original, plan.offsetX, plan.offsetY, plan.contentWidth, plan.contentHeight);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,156 @@
+export interface PresetVariable {
+  name: string;
+  label: string;
+  defaultValue: string;
+}
+
+export interface CleaningPreset {
+  id: string;
+  name: string;
+  template: string;
+  variables: PresetVariable[];
+  builtIn?: boolean;
+}
+
+export interface PresetSelection {
+  presetId: string;
+  variables: Record<string, string>;
+}
+
+interface PresetExportFile {
+  version: 1;
+  presets: Omit<CleaningPreset, 'builtIn'>[];
+}
+
+const STORAGE_KEY = 'abp.customPresets';
+
+export const DEFAULT_PRESET_ID = 'people-and-text';
+
+export const BUILT_IN_PRESETS: CleaningPreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: 'People and text',
+    template: "Identify and meticulously remove all people and text. Intelligently and realistically reconstruct the background. The output image should look as if the people and text were never there. Provide a clean, preserved background suitable for graphic design and digital creations.",
+    variables: [],
+    builtIn: true,
+  },
+  {
+    id: 'people-only',
+    name: 'People only',
+    template: "Identify and meticulously remove all people, including their shadows and reflections. Keep all text, signage and other objects exactly as they are. Realistically reconstruct the background behind the removed people.",
+    variables: [],
+    builtIn: true,
+  },
+  {
+    id: 'text-and-watermarks',
+    name: 'Text and watermarks',
+    template: "Remove all text, captions, logos and watermarks overlaid on or printed in the image. Keep people and all other objects unchanged. Realistically reconstruct the surfaces underneath.",
+    variables: [],
+    builtIn: true,
+  },
+  {
+    id: 'vehicles',
+    name: 'Vehicles',
+    template: "Remove all cars, bikes, buses and other vehicles. Keep everything else unchanged and realistically reconstruct the road, pavement and background behind them.",
+    variables: [],
+    builtIn: true,
+  },
+  {
+    id: 'keep-signage',
+    name: 'Keep signage, remove people',
+    template: "Remove all people but keep every sign, shopfront, label and piece of text exactly as it is. Realistically reconstruct the background where the people were.",
+    variables: [],
+    builtIn: true,
+  },
+  {
+    id: 'custom-objects',
+    name: 'Specific objects',
+    template: "Remove {{objects}} from the image. Keep everything else unchanged and realistically reconstruct the background where they were.",
+    variables: [{ name: 'objects', label: 'Objects to remove', defaultValue: 'all people' }],
+    builtIn: true,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export const extractTemplateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+export const renderPresetPrompt = (preset: CleaningPreset, values: Record<string, string> = {}): string =>
+  preset.template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = values[name]?.trim();
+    if (value) return value;
+    return preset.variables.find(v => v.name === name)?.defaultValue ?? '';
+  });
+
+export const loadCustomPresets = (): CleaningPreset[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parsePresets(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: CleaningPreset[]): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const getAllPresets = (customPresets: CleaningPreset[]): CleaningPreset[] => [...BUILT_IN_PRESETS, ...customPresets];
+
+export const findPreset = (presets: CleaningPreset[], id: string): CleaningPreset =>
+  presets.find(p => p.id === id) ?? BUILT_IN_PRESETS[0];
+
+export const createPreset = (name: string, template: string): CleaningPreset => ({
+  id: `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  template: template.trim(),
+  variables: extractTemplateVariables(template).map(variable => ({ name: variable, label: variable, defaultValue: '' })),
+});
+
+export const parsePresets = (value: unknown): CleaningPreset[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('Expected a list of presets.');
+  }
+  return value.map((item, index) => {
+    if (!item || typeof item.name !== 'string' || !item.name.trim() || typeof item.template !== 'string' || !item.template.trim()) {
+      throw new Error(`Preset ${index + 1} must have a non-empty "name" and "template".`);
+    }
+    const variables: PresetVariable[] = Array.isArray(item.variables)
+      ? item.variables
+          .filter((v: unknown): v is PresetVariable => Boolean(v) && typeof (v as PresetVariable).name === 'string')
+          .map((v: PresetVariable) => ({ name: v.name, label: typeof v.label === 'string' ? v.label : v.name, defaultValue: typeof v.defaultValue === 'string' ? v.defaultValue : '' }))
+      : createPreset(item.name, item.template).variables;
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : createPreset(item.name, item.template).id,
+      name: item.name.trim(),
+      template: item.template.trim(),
+      variables,
+    };
+  });
+};
+
+export const exportPresets = (presets: CleaningPreset[]): string => {
+  const file: PresetExportFile = {
+    version: 1,
+    presets: presets.filter(p => !p.builtIn).map(({ id, name, template, variables }) => ({ id, name, template, variables })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Accepts either an exported preset file or a bare array of presets. Imported presets that clash
+// with a built-in id are given a fresh id so they can never shadow a built-in.
+export const importPresets = (json: string): CleaningPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The preset file is not valid JSON.');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as Partial<PresetExportFile> | null)?.presets;
+  return parsePresets(list).map(preset =>
+    BUILT_IN_PRESETS.some(b => b.id === preset.id) ? { ...preset, id: createPreset(preset.name, preset.template).id } : preset
+  );
+};
@@ -0,0 +1,39 @@
+export interface RefinementRecipe {
+  id: string;
+  name: string;
+  // Prompts applied in order, each to the result of the previous one.
+  steps: string[];
+}
+
+const STORAGE_KEY = 'abp.recipes';
+
+export const createRecipe = (name: string, steps: string[]): RefinementRecipe => ({
+  id: `recipe-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  steps: steps.map(step => step.trim()).filter(Boolean),
+});
+
+const parseRecipes = (value: unknown): RefinementRecipe[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): RefinementRecipe[] => {
+    if (!item || typeof item.name !== 'string' || !Array.isArray(item.steps)) return [];
+    const steps = item.steps.filter((step: unknown): step is string => typeof step === 'string' && step.trim() !== '');
+    if (steps.length === 0) return [];
+    return [{ id: typeof item.id === 'string' && item.id ? item.id : createRecipe(item.name, steps).id, name: item.name, steps }];
+  });
+};
+
+export const loadRecipes = (): RefinementRecipe[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseRecipes(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecipes = (recipes: RefinementRecipe[]): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+};
@@ -0,0 +1,15 @@
+import type { ReferenceRecord, StyleReference } from '../types';
+import type { ReferenceSource } from '../services/geminiService';
+
+// The image model takes a handful of input images; the photo and an optional mask use two.
+export const MAX_REFERENCES = 3;
+
+export const toReferenceSources = (references: StyleReference[]): ReferenceSource[] =>
+  references.map(({ imageUrl, strength }) => ({ imageUrl, strength }));
+
+// What is kept with each version: enough to tell which references shaped it, without another copy of the image.
+export const toReferenceRecords = (references: StyleReference[]): ReferenceRecord[] =>
+  references.map(({ name, strength }) => ({ name, strength }));
+
+export const describeReferences = (records: ReferenceRecord[]): string =>
+  records.map((record, index) => `reference ${index + 1}: ${record.name} (${record.strength})`).join(', ');
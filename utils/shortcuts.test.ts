@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { findShortcut, getShortcutCombo, isTypingTarget } from './shortcuts';
+
+const key = (key: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey', boolean>> = {}) =>
+  ({ key, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers });
+
+describe('shortcuts', () => {
+  it('builds combos with Mod for Ctrl or ⌘ and upper-cased letters', () => {
+    expect(getShortcutCombo(key('c'))).toBe('C');
+    expect(getShortcutCombo(key('C', { shiftKey: true }))).toBe('Shift+C');
+    expect(getShortcutCombo(key('z', { metaKey: true, shiftKey: true }))).toBe('Mod+Shift+Z');
+    expect(getShortcutCombo(key('ArrowRight'))).toBe('→');
+    // Shift is what produces "?", so it is not part of the combo.
+    expect(getShortcutCombo(key('?', { shiftKey: true }))).toBe('?');
+  });
+
+  it('maps combos to actions and ignores unbound keys', () => {
+    expect(findShortcut(key('c'))).toBe('clean');
+    expect(findShortcut(key('C', { shiftKey: true }))).toBe('clean-all');
+    expect(findShortcut(key('c', { ctrlKey: true }))).toBe('copy-result');
+    expect(findShortcut(key('y', { ctrlKey: true }))).toBe('redo');
+    expect(findShortcut(key('?', { shiftKey: true }))).toBe('help');
+    expect(findShortcut(key('c', { altKey: true }))).toBeNull();
+    expect(findShortcut(key('q'))).toBeNull();
+  });
+
+  it('treats text fields and selects as typing targets, but not checkboxes or buttons', () => {
+    const element = <K extends keyof HTMLElementTagNameMap>(tag: K, type?: string) => {
+      const el = document.createElement(tag);
+      if (type) el.setAttribute('type', type);
+      return el;
+    };
+    expect(isTypingTarget(element('input', 'text'))).toBe(true);
+    expect(isTypingTarget(element('input', 'number'))).toBe(true);
+    expect(isTypingTarget(element('textarea'))).toBe(true);
+    expect(isTypingTarget(element('select'))).toBe(true);
+    expect(isTypingTarget(element('input', 'checkbox'))).toBe(false);
+    expect(isTypingTarget(element('button'))).toBe(false);
+    expect(isTypingTarget(document.body)).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+});
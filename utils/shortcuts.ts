@@ -0,0 +1,69 @@
+export type ShortcutAction =
+  | 'next-image' | 'previous-image' | 'toggle-selected'
+  | 'clean' | 'clean-all' | 'refine' | 'undo' | 'redo' | 'remove'
+  | 'download' | 'export-all' | 'copy-result'
+  | 'help';
+
+export type ShortcutGroup = 'Navigate' | 'Edit' | 'Export' | 'Help';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  // Combos as produced by getShortcutCombo; "Mod" is Ctrl, or ⌘ on a Mac.
+  keys: string[];
+  description: string;
+  group: ShortcutGroup;
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['Navigate', 'Edit', 'Export', 'Help'];
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'next-image', keys: ['J', '→'], description: 'Next image', group: 'Navigate' },
+  { action: 'previous-image', keys: ['K', '←'], description: 'Previous image', group: 'Navigate' },
+  { action: 'toggle-selected', keys: ['X'], description: 'Select or deselect the current image', group: 'Navigate' },
+  { action: 'clean', keys: ['C'], description: 'Clean the current image', group: 'Edit' },
+  { action: 'clean-all', keys: ['Shift+C'], description: 'Clean all images', group: 'Edit' },
+  { action: 'refine', keys: ['R'], description: 'Type a refinement (Enter applies it, Esc leaves the field)', group: 'Edit' },
+  { action: 'undo', keys: ['Mod+Z'], description: 'Undo', group: 'Edit' },
+  { action: 'redo', keys: ['Mod+Shift+Z', 'Mod+Y'], description: 'Redo', group: 'Edit' },
+  { action: 'remove', keys: ['Delete', 'Backspace'], description: 'Remove the current image', group: 'Edit' },
+  { action: 'download', keys: ['D'], description: 'Download the current result', group: 'Export' },
+  { action: 'export-all', keys: ['Shift+D'], description: 'Download all results as a ZIP', group: 'Export' },
+  { action: 'copy-result', keys: ['Mod+C'], description: 'Copy the current result to the clipboard', group: 'Export' },
+  { action: 'help', keys: ['?'], description: 'Show or hide this list', group: 'Help' },
+];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ' ': 'Space',
+};
+
+type KeyInput = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>;
+
+// Shift is left out for symbols, since it is what produces them: "?" rather than "Shift+?".
+export const getShortcutCombo = (event: KeyInput): string => {
+  const isSymbol = event.key.length === 1 && event.key.toUpperCase() === event.key.toLowerCase() && event.key !== ' ';
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(KEY_NAMES[event.key] ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key));
+  return parts.join('+');
+};
+
+export const findShortcut = (event: KeyInput): ShortcutAction | null => {
+  const combo = getShortcutCombo(event);
+  return SHORTCUTS.find(shortcut => shortcut.keys.includes(combo))?.action ?? null;
+};
+
+// Shortcuts stay out of the way while the user is typing or choosing from a list.
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'file'].includes(target.type);
+};
+
+export const formatShortcutKey = (combo: string, isMac: boolean): string =>
+  combo.replace('Mod', isMac ? '⌘' : 'Ctrl');
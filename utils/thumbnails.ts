@@ -0,0 +1,50 @@
+import { createCanvas, loadImage } from './maskUtils';
+
+const THUMBNAIL_SIZE = 256;
+// Enough for several screens of the gallery; older thumbnails are regenerated when scrolled back to.
+const MAX_CACHED_THUMBNAILS = 400;
+
+// Keyed by source URL. Map order doubles as the least-recently-used order.
+const cache = new Map<string, Promise<string>>();
+
+const renderThumbnail = async (imageUrl: string): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const [canvas, ctx] = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.8));
+  return blob ? URL.createObjectURL(blob) : canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const revokeThumbnail = (thumbnail: Promise<string>) => {
+  thumbnail.then(url => url.startsWith('blob:') && URL.revokeObjectURL(url)).catch(() => undefined);
+};
+
+export const getThumbnailUrl = (imageUrl: string): Promise<string> => {
+  let thumbnail = cache.get(imageUrl);
+  if (thumbnail) {
+    cache.delete(imageUrl);
+  } else {
+    thumbnail = renderThumbnail(imageUrl);
+    thumbnail.catch(() => cache.delete(imageUrl));
+  }
+  cache.set(imageUrl, thumbnail);
+
+  while (cache.size > MAX_CACHED_THUMBNAILS) {
+    const [oldestUrl, oldest] = cache.entries().next().value!;
+    cache.delete(oldestUrl);
+    revokeThumbnail(oldest);
+  }
+  return thumbnail;
+};
+
+// Call when the source image is discarded so its thumbnail does not outlive it.
+export const releaseThumbnails = (imageUrls: (string | null)[]): void => {
+  imageUrls.forEach(url => {
+    const thumbnail = url ? cache.get(url) : undefined;
+    if (!url || !thumbnail) return;
+    cache.delete(url);
+    revokeThumbnail(thumbnail);
+  });
+};
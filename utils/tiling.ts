@@ -0,0 +1,61 @@
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const tileStarts = (length: number, tileSize: number, overlap: number): number[] => {
+  if (length <= tileSize) return [0];
+  const step = tileSize - overlap;
+  const starts: number[] = [];
+  for (let start = 0; start + tileSize < length; start += step) {
+    starts.push(start);
+  }
+  // The last tile is aligned to the edge so no tile ever extends past the image.
+  starts.push(length - tileSize);
+  return starts;
+};
+
+// Splits an image into row-major tiles of at most `tileSize` pixels that overlap by at least `overlap`.
+export const planTiles = (width: number, height: number, tileSize: number, overlap: number): Tile[] => {
+  const safeOverlap = Math.max(0, Math.min(overlap, tileSize - 1));
+  const columns = tileStarts(width, tileSize, safeOverlap);
+  const rows = tileStarts(height, tileSize, safeOverlap);
+  return rows.flatMap(y => columns.map(x => ({
+    x,
+    y,
+    width: Math.min(tileSize, width),
+    height: Math.min(tileSize, height),
+  })));
+};
+
+export const cropToDataUrl = (source: CanvasImageSource, tile: Tile): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = tile.width;
+  canvas.height = tile.height;
+  canvas.getContext('2d')!.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Draws a processed tile onto the output. Tiles are blended in row-major order, so only the left
+// and top edges fade in over the `feather` width; the earlier neighbours underneath stay opaque.
+export const blendTile = (ctx: CanvasRenderingContext2D, tileImage: CanvasImageSource, tile: Tile, feather: number): void => {
+  const layer = document.createElement('canvas');
+  layer.width = tile.width;
+  layer.height = tile.height;
+  const layerCtx = layer.getContext('2d')!;
+  layerCtx.drawImage(tileImage, 0, 0, tile.width, tile.height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+
+  const fadeIn = (gradient: CanvasGradient) => {
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    layerCtx.fillStyle = gradient;
+    layerCtx.fillRect(0, 0, tile.width, tile.height);
+  };
+  if (feather > 0 && tile.x > 0) fadeIn(layerCtx.createLinearGradient(0, 0, feather, 0));
+  if (feather > 0 && tile.y > 0) fadeIn(layerCtx.createLinearGradient(0, 0, 0, feather));
+
+  ctx.drawImage(layer, tile.x, tile.y);
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { assertPublicHttpUrl, isPrivateAddress } from './urlSafety';
+
+describe('isPrivateAddress', () => {
+  it('checks IPv4 addresses embedded in IPv6 ones', () => {
+    ['::7f00:1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a00:1', '64:ff9b::192.168.0.1', '2002:c0a8:101::1', '2002:7f00:1::']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(true));
+    ['::ffff:8.8.8.8', '64:ff9b::808:808', '2002:808:808::1']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(false));
+  });
+
+  it('recognises private IPv6 ranges and refuses addresses it cannot parse', () => {
+    ['::', '::1', 'fe80::1%eth0', 'fd12:3456::1', 'ff02::1', '64:ff9b:1::1', '1::2::3', '1:2:3:4:5:6:7:8:9']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(true));
+    ['2606:4700::1111', '2001:db8::1'].forEach(address => expect(isPrivateAddress(address), address).toBe(false));
+  });
+});
+
+describe('assertPublicHttpUrl', () => {
+  it('rejects IPv6 literals that point to a private IPv4 address', () => {
+    expect(() => assertPublicHttpUrl('http://[64:ff9b::127.0.0.1]/a.png')).toThrow('not allowed');
+    expect(() => assertPublicHttpUrl('http://[::ffff:10.0.0.1]/a.png')).toThrow('not allowed');
+    expect(assertPublicHttpUrl('https://[2606:4700::1111]/a.png').hostname).toBe('[2606:4700::1111]');
+  });
+});
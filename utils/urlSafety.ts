@@ -0,0 +1,91 @@
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(part => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every(octet => octet >= 0 && octet <= 255) ? octets : null;
+};
+
+const isPrivateIPv4 = ([a, b]: number[]): boolean =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 192 && b === 0) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a >= 224;
+
+// Expands an IPv6 address (with optional embedded dotted IPv4 tail) to its eight 16-bit groups.
+const parseIPv6 = (address: string): number[] | null => {
+  let ip = address.replace(/%.*$/, '');
+  const dotted = ip.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (!v4) return null;
+    ip = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  const [head, tail] = halves.map(half => (half ? half.split(':') : []));
+  if (![...head, ...(tail ?? [])].every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  const missing = 8 - head.length - (tail?.length ?? 0);
+  if (tail ? missing < 1 : missing !== 0) return null;
+  return [...head, ...Array<string>(tail ? missing : 0).fill('0'), ...(tail ?? [])].map(group => parseInt(group, 16));
+};
+
+const toIPv4 = (high: number, low: number): number[] => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+const isPrivateIPv6 = (groups: number[]): boolean => {
+  const [first, second] = groups;
+  const zeroPrefix = (length: number) => groups.slice(0, length).every(group => group === 0);
+  // IPv4-compatible (::a.b.c.d, which also covers :: and ::1) and IPv4-mapped (::ffff:a.b.c.d)
+  // addresses, and NAT64 (64:ff9b::/96), all carry an IPv4 address in their last 32 bits.
+  if (zeroPrefix(6) || (zeroPrefix(5) && groups[5] === 0xffff) || (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0))) {
+    return isPrivateIPv4(toIPv4(groups[6], groups[7]));
+  }
+  // Local-use NAT64 prefix (64:ff9b:1::/48): translated by the local network, never public.
+  if (first === 0x64 && second === 0xff9b) return true;
+  // 6to4 (2002::/16) carries the IPv4 address in the next 32 bits.
+  if (first === 0x2002) return isPrivateIPv4(toIPv4(groups[1], groups[2]));
+  return (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xff00) === 0xff00;
+};
+
+// True for loopback, private, link-local, carrier-grade NAT, multicast and reserved addresses,
+// including IPv4 ones embedded in IPv6 addresses (mapped, compatible, NAT64 and 6to4).
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const v4 = parseIPv4(ip);
+  if (v4) return isPrivateIPv4(v4);
+  if (!ip.includes(':')) return false;
+  // Anything that looks like IPv6 but does not parse is refused rather than guessed at.
+  const v6 = parseIPv6(ip);
+  return v6 ? isPrivateIPv6(v6) : true;
+};
+
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+// Rejects anything that is not a public http(s) URL. Host names are only checked literally here;
+// the image server additionally resolves them and checks every resolved address.
+export const assertPublicHttpUrl = (value: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`"${value}" is not a valid URL.`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https image URLs are supported.');
+  }
+  if (url.username || url.password) {
+    throw new Error('Image URLs must not contain credentials.');
+  }
+  const host = url.hostname.toLowerCase();
+  if (host === 'localhost' || INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)) || isPrivateAddress(host)) {
+    throw new Error('Image URLs pointing to local or private network addresses are not allowed.');
+  }
+  return url;
+};
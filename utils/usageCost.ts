@@ -0,0 +1,138 @@
+import type { ModelUsageCounts, UsageAggregates, UsageRecord } from '../services/usageTracker';
+
+export interface ModelPrice {
+  // US dollars per million tokens.
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSettings {
+  prices: PriceTable;
+  // Spending limits in US dollars; null disables the warning.
+  dailyBudget: number | null;
+  sessionBudget: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  totalLatencyMs: number;
+  cost: number;
+}
+
+const STORAGE_KEY = 'abp.usageSettings';
+
+// Published list prices at the time of writing; edit them in the usage panel if they change.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICE_TABLE,
+  dailyBudget: null,
+  sessionBudget: null,
+};
+
+const parseBudget = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+export const loadUsageSettings = (): UsageSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_USAGE_SETTINGS;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_USAGE_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<UsageSettings>;
+    return {
+      prices: { ...DEFAULT_PRICE_TABLE, ...parsed.prices },
+      dailyBudget: parseBudget(parsed.dailyBudget),
+      sessionBudget: parseBudget(parsed.sessionBudget),
+    };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Models missing from the price table (e.g. the mock) are counted as free.
+export const estimateCost = (usage: Pick<UsageRecord, 'model' | 'promptTokens' | 'outputTokens'>, prices: PriceTable): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { requests: 0, failures: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, totalLatencyMs: 0, cost: 0 };
+
+export const addToTotals = (totals: UsageTotals, record: UsageRecord, prices: PriceTable): UsageTotals => ({
+  requests: totals.requests + 1,
+  failures: totals.failures + (record.outcome === 'error' ? 1 : 0),
+  promptTokens: totals.promptTokens + record.promptTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  totalTokens: totals.totalTokens + record.totalTokens,
+  totalLatencyMs: totals.totalLatencyMs + record.latencyMs,
+  cost: totals.cost + estimateCost(record, prices),
+});
+
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => addToTotals(totals, record, prices), EMPTY_USAGE_TOTALS);
+
+// Totals of running per-model counts (see UsageAggregates), costed with the current prices.
+export const summarizeCounts = (counts: ModelUsageCounts | undefined, prices: PriceTable): UsageTotals =>
+  Object.entries(counts ?? {}).reduce<UsageTotals>((totals, [model, count]) => ({
+    requests: totals.requests + count.requests,
+    failures: totals.failures + count.failures,
+    promptTokens: totals.promptTokens + count.promptTokens,
+    outputTokens: totals.outputTokens + count.outputTokens,
+    totalTokens: totals.totalTokens + count.totalTokens,
+    totalLatencyMs: totals.totalLatencyMs + count.totalLatencyMs,
+    cost: totals.cost + estimateCost({ model, ...count }, prices),
+  }), EMPTY_USAGE_TOTALS);
+
+// Totals per group, in order of first appearance.
+export const groupUsage = (
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  prices: PriceTable
+): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return Array.from(groups, ([key, group]): [string, UsageTotals] => [key, summarizeUsage(group, prices)]);
+};
+
+// Local calendar day, e.g. "2025-03-14".
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getBudgetWarnings = (
+  aggregates: UsageAggregates,
+  sessionId: string,
+  settings: UsageSettings,
+  now: number = Date.now()
+): string[] => {
+  const warnings: string[] = [];
+  const dailyCost = summarizeCounts(aggregates.days[toDayKey(now)], settings.prices).cost;
+  const sessionCost = summarizeCounts(aggregates.sessions[sessionId], settings.prices).cost;
+  if (settings.dailyBudget !== null && dailyCost >= settings.dailyBudget) {
+    warnings.push(`Today's estimated spend ($${dailyCost.toFixed(2)}) has reached the daily budget of $${settings.dailyBudget.toFixed(2)}.`);
+  }
+  if (settings.sessionBudget !== null && sessionCost >= settings.sessionBudget) {
+    warnings.push(`This session's estimated spend ($${sessionCost.toFixed(2)}) has reached the session budget of $${settings.sessionBudget.toFixed(2)}.`);
+  }
+  return warnings;
+};
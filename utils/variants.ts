@@ -0,0 +1,32 @@
+import type { VariantCandidate } from '../types';
+import type { SamplingOptions } from '../services/imageEditProvider';
+
+export interface VariantOptions {
+  // Results requested per clean or refinement; 1 applies the result directly, without a picker.
+  count: number;
+  // Only sent to providers that support sampling; null leaves the model's default.
+  temperature: number | null;
+  seed: number | null;
+}
+
+export const MAX_VARIANTS = 4;
+export const TEMPERATURE_CHOICES = [0.2, 0.5, 0.8, 1, 1.3, 1.6, 2];
+
+export const DEFAULT_VARIANT_OPTIONS: VariantOptions = {
+  count: 1,
+  temperature: null,
+  seed: null,
+};
+
+// Each variant gets its own seed, counting up from the chosen one, so a run can be repeated
+// exactly while the variants within it still differ.
+export const getVariantSampling = (options: VariantOptions, index: number, supportsSampling: boolean): SamplingOptions | undefined => {
+  if (!supportsSampling || (options.temperature === null && options.seed === null)) return undefined;
+  return {
+    temperature: options.temperature ?? undefined,
+    seed: options.seed === null ? undefined : options.seed + index,
+  };
+};
+
+export const createVariantCandidates = (count: number): VariantCandidate[] =>
+  Array.from({ length: count }, () => ({ id: `${Date.now()}-${Math.random()}`, resultUrl: null, error: null, versionId: null }));
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('readZip', () => {
+  it('reads back the entries written by createZip', () => {
+    const entries = [
+      { name: 'project.json', data: bytes('{"version":1}') },
+      { name: 'images/001/original.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0x00, 0x10]) },
+      { name: 'images/001/ä.png', data: new Uint8Array() },
+    ];
+
+    expect(readZip(createZip(entries)).map(({ name, data }) => ({ name, data: Array.from(data) })))
+      .toEqual(entries.map(({ name, data }) => ({ name, data: Array.from(data) })));
+  });
+
+  it('rejects files that are not archives, and archives with damaged contents', () => {
+    expect(() => readZip(bytes('just some text, not a zip file'))).toThrow('not a ZIP archive');
+
+    const archive = createZip([{ name: 'a.txt', data: bytes('hello') }]);
+    archive[30 + 'a.txt'.length] ^= 0xff;
+    expect(() => readZip(archive)).toThrow('"a.txt" is corrupt');
+  });
+});
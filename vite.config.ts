@@ -4,16 +4,40 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode lib` builds the embeddable library from lib/index.ts instead of the app.
+    const isLibrary = mode === 'lib';
+    // With an image server configured the key stays server-side and is never inlined into the bundle.
+    // A published library never carries a key: embedders use the image server or register a provider.
+    const clientApiKey = env.IMAGE_PROXY_URL || isLibrary ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_PROXY_URL': JSON.stringify(env.IMAGE_PROXY_URL),
+        'process.env.URL_FETCH_PROXY': JSON.stringify(env.URL_FETCH_PROXY),
+        'process.env.ALLOW_PUBLIC_CORS_PROXY': JSON.stringify(env.ALLOW_PUBLIC_CORS_PROXY)
       },
+      build: isLibrary ? {
+        outDir: 'dist/lib',
+        lib: {
+          entry: path.resolve(__dirname, 'lib/index.ts'),
+          formats: ['es'],
+          fileName: 'background-cleaner',
+        },
+        rollupOptions: {
+          // Left to the host application so it does not end up with two copies of React.
+          external: ['react', 'react/jsx-runtime', 'react-dom', '@google/genai', 'heic2any', 'utif'],
+        },
+      } : undefined,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),